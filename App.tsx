@@ -1,25 +1,42 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
-  GameState, Player, GamePhase, Tile, TileType, GameLog, 
-  ColorGroup,
-  ChanceCard,
+  GameState, GamePhase, TileType, 
   Room,
   ActionType,
-  NetworkAction
+  NetworkAction,
+  TradeTerms,
+  RuleSet,
+  BoardDefinition,
+  ActionRejection,
+  LobbyFilter,
+  AIProfile
 } from './types';
-import { INITIAL_TILES, INITIAL_MONEY, CHANCE_CARDS } from './constants';
-import TileComponent from './components/Tile';
+import { DEFAULT_RULES, DEFAULT_BOARD, MIN_ROOM_PLAYERS, MAX_ROOM_PLAYERS, DEFAULT_ROOM_PLAYERS } from './constants';
+import { reduce, createInitialState } from './engine/gameEngine';
+import { sanitizeRules } from './engine/rules';
+import { parseSeed } from './engine/random';
+import { generateId, getMortgageValue, getUnmortgageCost, groupHasBuildings, getBuildError, getSellError, getHouseSaleValue } from './engine/helpers';
+import Board from './components/Board';
 import ControlPanel from './components/ControlPanel';
 import GameLogComponent from './components/GameLog';
-import { getAIDecision } from './services/geminiService';
+import TradePanel from './components/TradePanel';
+import AuctionPanel from './components/AuctionPanel';
+import DebtPanel from './components/DebtPanel';
+import RulesPanel from './components/RulesPanel';
+import BoardPicker from './components/BoardPicker';
+import ReplayViewer from './components/ReplayViewer';
+import ConnectionBadge from './components/ConnectionBadge';
+import Toast from './components/Toast';
+import AIProfilePicker from './components/AIProfilePicker';
+import { getPendingAIActions } from './services/geminiService';
+import { DEFAULT_AI_PROFILE, sanitizeAIProfile } from './services/aiProfiles';
+import {
+  isGameInProgress, saveOfflineGame, loadOfflineGame, clearOfflineGame,
+  saveOnlineSession, loadOnlineSession, clearOnlineSession
+} from './services/savedGames';
 import { io, Socket } from "socket.io-client";
 
-// Helper for IDs without external deps
-const generateId = () => {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
-};
-
 // --- CONFIGURATION ---
 // Dynamic URL detection for LAN/Synology deployment
 const getSocketUrl = () => {
@@ -29,6 +46,11 @@ const getSocketUrl = () => {
     return `${protocol}//${hostname}:3002`;
 };
 
+// Invite links look like ?room=<roomId>
+const getInviteCodeFromUrl = () => new URLSearchParams(window.location.search).get('room') ?? '';
+
+const getInviteLink = (roomId: string) => `${window.location.origin}${window.location.pathname}?room=${roomId}`;
+
 const App: React.FC = () => {
   // --- STATE ---
   const [socket, setSocket] = useState<Socket | null>(null);
@@ -38,23 +60,51 @@ const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>({
     players: [],
     currentPlayerIndex: 0,
-    tiles: INITIAL_TILES,
+    board: DEFAULT_BOARD,
+    tiles: DEFAULT_BOARD.tiles,
     dice: [1, 1],
     phase: GamePhase.LOGIN,
     logs: [],
     winner: null,
     currentCard: null,
+    decks: { CHANCE: [], COMMUNITY_CHEST: [] },
+    heldJailCards: [],
     selectedTileId: null,
     waitingForDoublesTurn: false,
+    pendingTrade: null,
+    rules: DEFAULT_RULES,
+    freeParkingPot: 0,
+    auction: null,
+    houseSupply: DEFAULT_RULES.houseSupply,
+    hotelSupply: DEFAULT_RULES.hotelSupply,
+    debts: [],
+    debtResume: null,
+    rngSeed: 0,
+    rngCounter: 0,
+    journal: [],
     currentUser: null,
     roomId: null,
     isHost: false
   });
 
   // Room Logic State
+  // Finished game being watched in the replay viewer
+  const [replaySource, setReplaySource] = useState<GameState | null>(null);
+  // Unfinished offline game and last online seat from a previous visit
+  const [savedGame] = useState(() => loadOfflineGame());
+  const [onlineSession] = useState(() => loadOnlineSession());
+  // Latest refusal from the server, shown briefly
+  const [notice, setNotice] = useState<string | null>(null);
   const [nickname, setNickname] = useState("");
   const [rooms, setRooms] = useState<Room[]>([]);
   const [newRoomName, setNewRoomName] = useState("");
+  const [newRoomPrivate, setNewRoomPrivate] = useState(false);
+  const [newRoomPassword, setNewRoomPassword] = useState("");
+  const [inviteCode, setInviteCode] = useState(getInviteCodeFromUrl);
+  const [joinPassword, setJoinPassword] = useState("");
+  const [lobbyFilter, setLobbyFilter] = useState<LobbyFilter>({ status: 'ALL', hideFull: false });
+  const lobbyFilterRef = useRef(lobbyFilter);
+  useEffect(() => { lobbyFilterRef.current = lobbyFilter; }, [lobbyFilter]);
 
   // Refs for access in closures/socket listeners
   const gameStateRef = useRef(gameState);
@@ -68,7 +118,7 @@ const App: React.FC = () => {
     console.log("Attempting to connect to:", socketUrl);
 
     const newSocket = io(socketUrl, {
-        reconnectionAttempts: 5,
+        reconnectionAttempts: Infinity, // Keep trying so a dropped player can reclaim their seat
         timeout: 5000,
         transports: ['websocket', 'polling'] // Force websocket first
     });
@@ -78,7 +128,14 @@ const App: React.FC = () => {
         console.log("Connected to server:", newSocket.id);
         setIsConnected(true);
         // Request rooms list on connect
-        newSocket.emit("get_rooms");
+        newSocket.emit("get_rooms", lobbyFilterRef.current);
+
+        // After a dropped connection, take our seat back on the new socket
+        const { currentUser, roomId } = gameStateRef.current;
+        const session = loadOnlineSession();
+        if (currentUser && roomId && session?.roomId === roomId && session.user.id === currentUser.id) {
+            newSocket.emit("rejoin_room", { roomId, playerId: currentUser.id, token: session.token });
+        }
     });
 
     newSocket.on("disconnect", () => {
@@ -95,15 +152,44 @@ const App: React.FC = () => {
         setRooms(updatedRooms);
     });
 
-    newSocket.on("room_joined", ({ roomId, room }: { roomId: string, room: Room }) => {
+    newSocket.on("room_joined", ({ roomId, room, token }: { roomId: string, room: Room, token: string }) => {
+        const user = gameStateRef.current.currentUser;
+        if (user) saveOnlineSession({ user, roomId, token });
+        setRooms(prev => prev.some(r => r.id === roomId) ? prev.map(r => r.id === roomId ? room : r) : [...prev, room]);
         setGameState(prev => ({ 
             ...prev, 
             roomId: roomId, 
-            phase: GamePhase.ROOM_SETUP,
+            // A game already running is sent right after; stay on the current screen until then
+            phase: room.status === 'PLAYING' ? prev.phase : GamePhase.ROOM_SETUP,
             isHost: room.hostId === prev.currentUser?.id 
         }));
     });
 
+    newSocket.on("rejoin_failed", ({ roomId }: { roomId: string }) => {
+        clearOnlineSession();
+        console.warn(`Could not rejoin room ${roomId}`);
+        setGameState(prev => ({ ...prev, roomId: null, phase: prev.currentUser ? GamePhase.LOBBY_ROOMS : GamePhase.LOGIN }));
+    });
+
+    newSocket.on("action_rejected", (rejection: ActionRejection) => {
+        console.warn("Server rejected", rejection.event, rejection.reason);
+        setNotice(rejection.message);
+    });
+
+    // Back to the lobby after leaving, being kicked or the room closing
+    const returnToLobby = (message?: string) => {
+        clearOnlineSession();
+        if (message) setNotice(message);
+        setGameState(prev => ({ ...prev, roomId: null, isHost: false, phase: GamePhase.LOBBY_ROOMS }));
+    };
+    newSocket.on("room_left", () => returnToLobby());
+    newSocket.on("kicked", () => returnToLobby('你被房主移出了房间'));
+    newSocket.on("room_closed", () => returnToLobby('房主解散了房间'));
+
+    newSocket.on("host_changed", ({ roomId, hostId }: { roomId: string, hostId: string }) => {
+        setGameState(prev => prev.roomId === roomId ? { ...prev, isHost: prev.currentUser?.id === hostId } : prev);
+    });
+
     newSocket.on("room_player_update", (room: Room) => {
         setRooms(prev => prev.map(r => r.id === room.id ? room : r));
     });
@@ -118,22 +204,14 @@ const App: React.FC = () => {
     });
 
     newSocket.on("game_state_sync", (syncedState: GameState) => {
-        // Only Clients apply this. Hosts ignore (they are the source of truth).
-        if (!gameStateRef.current.isHost) {
-            setGameState(prev => ({
-                ...syncedState,
-                currentUser: prev.currentUser,
-                roomId: prev.roomId,
-                isHost: false
-            }));
-        }
-    });
-
-    // HOST ONLY: Receive Actions from Clients
-    newSocket.on("receive_action", (action: NetworkAction) => {
-        if (gameStateRef.current.isHost) {
-            handleReceivedAction(action);
-        }
+        // The server owns the game state; every client (host included) applies it.
+        setGameState(prev => ({
+            ...syncedState,
+            currentUser: prev.currentUser,
+            roomId: prev.roomId,
+            isHost: prev.isHost,
+            selectedTileId: prev.selectedTileId
+        }));
     });
 
     return () => {
@@ -141,28 +219,19 @@ const App: React.FC = () => {
     };
   }, [isOfflineMode]);
 
-  // --- HELPERS ---
-  const createLog = (message: string, type: GameLog['type'] = 'info'): GameLog => ({
-      id: generateId(),
-      message,
-      type,
-      timestamp: Date.now()
-  });
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
 
+  // --- HELPERS ---
   const getCurrentPlayer = () => gameState.players[gameState.currentPlayerIndex];
   const getPlayerById = (id: string) => gameState.players.find(p => p.id === id);
 
-  // Sync state to server (Host Only)
-  const broadcastState = (newState: GameState) => {
-      if (isOfflineMode) return; // No broadcast in offline mode
-      if (socket && newState.roomId) {
-          socket.emit("update_game_state", { roomId: newState.roomId, state: newState });
-      }
-  };
-
-  // --- ACTION HANDLING (HOST & CLIENT) ---
+  // --- ACTION HANDLING ---
   
-  // This function decides whether to execute locally (Host/Offline) or send to network (Client)
+  // This function decides whether to execute locally (Offline) or send to the server, which owns the game state
   const dispatchAction = (type: ActionType, payload?: any) => {
       if (!gameState.currentUser) return;
       const action: NetworkAction = {
@@ -171,435 +240,46 @@ const App: React.FC = () => {
           payload
       };
 
-      if (gameState.isHost || isOfflineMode) {
-          // Host or Offline executes immediately
+      if (isOfflineMode) {
+          // Offline executes immediately
           executeGameLogic(action);
       } else {
-          // Client sends to Host
+          // Online: the server applies the action and syncs the result back
           socket?.emit("client_action", { roomId: gameState.roomId, action });
       }
   };
 
-  // Host Only: Receive Action and Execute
-  const handleReceivedAction = (action: NetworkAction) => {
-      executeGameLogic(action);
-  };
-
-  // --- CORE GAME LOGIC (HOST EXECUTION) ---
+  // --- CORE GAME LOGIC (OFFLINE EXECUTION) ---
   const executeGameLogic = (action: NetworkAction) => {
-      setGameState(prevState => {
-          // 1. Validate turn (unless surrender)
-          const player = prevState.players.find(p => p.id === action.playerId);
-          if (!player) return prevState;
-          
-          const isTurn = prevState.players[prevState.currentPlayerIndex].id === player.id;
-          if (!isTurn && action.type !== 'SURRENDER') return prevState;
-
-          // 2. Process Action
-          let newState = { ...prevState };
-          const logs = [...newState.logs]; // Work with mutable logs array for this update
-
-          switch (action.type) {
-              case 'ROLL':
-                  newState = processRoll(newState, player, logs);
-                  break;
-              case 'BUY':
-                  newState = processBuy(newState, player, logs);
-                  break;
-              case 'PASS':
-                  newState = processPass(newState, player, logs);
-                  break;
-              case 'PAY_BAIL':
-                  newState = processPayBail(newState, player, logs);
-                  break;
-              case 'UPGRADE':
-                  newState = processUpgrade(newState, player, logs);
-                  break;
-              case 'END_TURN':
-                  newState = processEndTurn(newState, logs);
-                  break;
-              case 'SURRENDER':
-                  newState = processSurrender(newState, player, logs);
-                  break;
-          }
-
-          newState.logs = logs;
-          
-          // 3. Broadcast Update
-          broadcastState(newState);
-          return newState;
-      });
-  };
-
-  // --- LOGIC PROCESSORS (PURE FUNCTIONS IDEALLY) ---
-
-  const processSurrender = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-      logs.push(createLog(`${player.name} 选择了认输，宣告破产！`, 'danger'));
-      
-      const newPlayers = [...state.players];
-      const pIdx = newPlayers.findIndex(p => p.id === player.id);
-      
-      newPlayers[pIdx].bankrupt = true;
-      newPlayers[pIdx].money = 0;
-
-      // Release tiles
-      const newTiles = state.tiles.map(t => t.ownerId === player.id ? { ...t, ownerId: null, houseCount: 0 } : t);
-      
-      const isTurn = state.players[state.currentPlayerIndex].id === player.id;
-      
-      let nextState = { ...state, players: newPlayers, tiles: newTiles };
-      
-      if (isTurn) {
-         return processEndTurn(nextState, logs);
-      } else {
-         const activePlayers = nextState.players.filter(p => !p.bankrupt);
-         if (activePlayers.length <= 1) {
-            return { ...nextState, winner: activePlayers[0] || null, phase: GamePhase.GAME_OVER };
-         }
-         return nextState;
-      }
-  };
-
-  const processPayBail = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-      if (player.money < 50) {
-          logs.push(createLog(`${player.name} 资金不足，无法支付保释金。`, 'warning'));
-          return state;
-      }
-      const newPlayers = [...state.players];
-      const idx = newPlayers.findIndex(p => p.id === player.id);
-      newPlayers[idx].money -= 50;
-      newPlayers[idx].isInJail = false;
-      newPlayers[idx].jailTurns = 0;
-      newPlayers[idx].consecutiveDoubles = 0;
-      
-      logs.push(createLog(`${player.name} 支付了 $50 保释金，重获自由！`, 'success'));
-      return { ...state, players: newPlayers };
+      setGameState(prevState => reduce(prevState, action).state);
   };
 
-  const processUpgrade = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-      if (state.selectedTileId === null) return state;
-      const tile = state.tiles.find(t => t.id === state.selectedTileId);
-      if (!tile || !tile.houseCost) return state;
-      
-      if (player.money < tile.houseCost) {
-          logs.push(createLog("资金不足，无法升级！", 'warning'));
-          return state;
-      }
-      if (tile.houseCount && tile.houseCount >= 5) {
-          logs.push(createLog("已经达到最高等级！", 'warning'));
-          return state;
-      }
-
-      const newPlayers = [...state.players];
-      const pIdx = newPlayers.findIndex(p => p.id === player.id);
-      newPlayers[pIdx].money -= tile.houseCost;
-
-      const newTiles = [...state.tiles];
-      const tIdx = newTiles.findIndex(t => t.id === tile.id);
-      newTiles[tIdx] = { ...tile, houseCount: (tile.houseCount || 0) + 1 };
-
-      const levelName = newTiles[tIdx].houseCount === 5 ? "酒店" : `${newTiles[tIdx].houseCount} 栋房屋`;
-      logs.push(createLog(`${player.name} 升级了 ${tile.name} 为 ${levelName} (-$${tile.houseCost})`, 'success'));
-
-      return { ...state, players: newPlayers, tiles: newTiles };
-  };
-
-  const processPass = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-      logs.push(createLog(`${player.name} 决定不购买。`));
-      return { 
-          ...state, 
-          phase: state.waitingForDoublesTurn ? GamePhase.ROLLING : GamePhase.END_TURN 
-      };
-  };
-
-  const processBuy = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-      const tile = state.tiles[player.position];
-      if (!tile.price || player.money < tile.price) return state;
-
-      const newPlayers = [...state.players];
-      const pIdx = newPlayers.findIndex(p => p.id === player.id);
-      newPlayers[pIdx].money -= tile.price;
-      newPlayers[pIdx].properties.push(tile.id);
-
-      const newTiles = [...state.tiles];
-      newTiles[player.position] = { ...tile, ownerId: player.id };
 
-      logs.push(createLog(`${player.name} 花费 $${tile.price} 购买了 ${tile.name}。`, 'success'));
-
-      return { 
-          ...state, 
-          players: newPlayers, 
-          tiles: newTiles, 
-          phase: state.waitingForDoublesTurn ? GamePhase.ROLLING : GamePhase.END_TURN 
-      };
-  };
-
-  const processEndTurn = (state: GameState, logs: GameLog[]): GameState => {
-      let nextIndex = (state.currentPlayerIndex + 1) % state.players.length;
-      let loopCount = 0;
-      // Skip bankrupt players
-      while(state.players[nextIndex].bankrupt && loopCount < state.players.length) {
-          nextIndex = (nextIndex + 1) % state.players.length;
-          loopCount++;
-      }
-
-      const activePlayers = state.players.filter(p => !p.bankrupt);
-      if (activePlayers.length <= 1) {
-          return { ...state, winner: activePlayers[0] || null, phase: GamePhase.GAME_OVER };
-      }
-
-      return {
-          ...state,
-          currentPlayerIndex: nextIndex,
-          phase: GamePhase.ROLLING,
-          waitingForDoublesTurn: false 
-      };
-  };
-
-  const processRoll = (state: GameState, player: Player, logs: GameLog[]): GameState => {
-    const d1 = Math.floor(Math.random() * 6) + 1;
-    const d2 = Math.floor(Math.random() * 6) + 1;
-    const total = d1 + d2;
-    const isDouble = d1 === d2;
-    
-    let newState = { ...state, dice: [d1, d2] as [number, number], waitingForDoublesTurn: false };
-
-    // Jail Logic
-    if (player.isInJail) {
-        if (isDouble) {
-            logs.push(createLog(`${player.name} 掷出了双倍 (${d1}, ${d2})，成功越狱！`, 'success'));
-            const newPlayers = [...newState.players];
-            const idx = newPlayers.findIndex(p => p.id === player.id);
-            newPlayers[idx].isInJail = false;
-            newPlayers[idx].jailTurns = 0;
-            newPlayers[idx].consecutiveDoubles = 0;
-            newState.players = newPlayers;
-            return movePlayer(newState, total, player.id, false, logs);
-        } else {
-            if (player.jailTurns >= 2) {
-                logs.push(createLog(`${player.name} 狱期已满，强制支付 $50 保释金出狱。`, 'warning'));
-                const newPlayers = [...newState.players];
-                const idx = newPlayers.findIndex(p => p.id === player.id);
-                newPlayers[idx].money -= 50;
-                newPlayers[idx].isInJail = false;
-                newPlayers[idx].jailTurns = 0;
-                newPlayers[idx].consecutiveDoubles = 0;
-                newState.players = newPlayers;
-                return movePlayer(newState, total, player.id, false, logs);
-            } else {
-                logs.push(createLog(`${player.name} 掷出 ${total}，越狱失败。`, 'warning'));
-                const newPlayers = [...newState.players];
-                const idx = newPlayers.findIndex(p => p.id === player.id);
-                newPlayers[idx].jailTurns += 1;
-                newPlayers[idx].consecutiveDoubles = 0;
-                newState.players = newPlayers;
-                newState.phase = GamePhase.END_TURN;
-                return newState;
-            }
-        }
-    }
-
-    // Normal Logic
-    let nextDoublesCount = player.consecutiveDoubles;
-    if (isDouble) nextDoublesCount += 1;
-    else nextDoublesCount = 0;
-
-    if (nextDoublesCount === 3) {
-        logs.push(createLog(`${player.name} 连续三次掷出双倍，因超速被送进监狱！`, 'danger'));
-        const newPlayers = [...newState.players];
-        const idx = newPlayers.findIndex(p => p.id === player.id);
-        newPlayers[idx].position = 10;
-        newPlayers[idx].isInJail = true;
-        newPlayers[idx].jailTurns = 0;
-        newPlayers[idx].consecutiveDoubles = 0;
-        newState.players = newPlayers;
-        newState.phase = GamePhase.END_TURN;
-        return newState;
+  // --- PERSISTENCE ---
+  useEffect(() => {
+    if (gameState.phase === GamePhase.GAME_OVER) {
+        if (isOfflineMode) clearOfflineGame();
+        else clearOnlineSession();
+    } else if (isOfflineMode && isGameInProgress(gameState)) {
+        saveOfflineGame(gameState);
     }
+  }, [gameState, isOfflineMode]);
 
-    const newPlayers = [...newState.players];
-    const idx = newPlayers.findIndex(p => p.id === player.id);
-    newPlayers[idx].consecutiveDoubles = nextDoublesCount;
-    newState.players = newPlayers;
-
-    logs.push(createLog(`${player.name} 掷出了 ${total} (${d1} + ${d2})${isDouble ? ' - 双倍!' : ''}`));
-    
-    return movePlayer(newState, total, player.id, isDouble, logs);
-  };
-
-  const movePlayer = (state: GameState, steps: number, playerId: string, isDouble: boolean, logs: GameLog[]): GameState => {
-      const newPlayers = [...state.players];
-      const idx = newPlayers.findIndex(p => p.id === playerId);
-      let newPos = newPlayers[idx].position + steps;
-
-      if (newPos >= 40) {
-          newPos -= 40;
-          newPlayers[idx].money += 200;
-          logs.push(createLog(`${newPlayers[idx].name} 经过起点，获得 $200 奖励。`, 'success'));
-      } else if (newPos < 0) {
-          newPos += 40;
-      }
-      newPlayers[idx].position = newPos;
-
-      let newState = { ...state, players: newPlayers };
-      
-      // Handle Landing (Sync)
-      return handleLanding(newState, playerId, isDouble, logs);
-  };
-
-  const handleLanding = (state: GameState, playerId: string, isDouble: boolean, logs: GameLog[]): GameState => {
-      const player = state.players.find(p => p.id === playerId);
-      if(!player) return state;
-      
-      const tile = state.tiles[player.position];
-      logs.push(createLog(`${player.name} 到达了 ${tile.name}。`));
-
-      // 1. Go to Jail
-      if (tile.type === TileType.GO_TO_JAIL) {
-          const newPlayers = [...state.players];
-          const idx = newPlayers.findIndex(p => p.id === playerId);
-          newPlayers[idx].position = 10;
-          newPlayers[idx].isInJail = true;
-          newPlayers[idx].jailTurns = 0;
-          newPlayers[idx].consecutiveDoubles = 0;
-          logs.push(createLog(`${player.name} 触犯法律，被直接送进监狱！`, 'danger'));
-          return { ...state, players: newPlayers, phase: GamePhase.END_TURN, waitingForDoublesTurn: false };
-      }
-
-      // 2. Chance / Community Chest
-      if (tile.type === TileType.CHANCE || tile.type === TileType.COMMUNITY_CHEST) {
-          const cardIndex = Math.floor(Math.random() * CHANCE_CARDS.length);
-          const card = CHANCE_CARDS[cardIndex];
-          
-          let nextState = { ...state, currentCard: card, phase: GamePhase.SHOWING_CARD };
-          return applyChanceEffect(nextState, playerId, card, isDouble, logs);
-      }
-
-      // 3. Properties
-      if (tile.type === TileType.PROPERTY || tile.type === TileType.STATION || tile.type === TileType.UTILITY) {
-        if (tile.ownerId && tile.ownerId !== playerId) {
-            // Pay Rent
-            const owner = state.players.find(p => p.id === tile.ownerId);
-            if (owner && !owner.bankrupt) {
-                let rent = 0;
-                if (tile.type === TileType.PROPERTY) {
-                     const baseRent = tile.rent ? tile.rent[tile.houseCount || 0] : 0;
-                     if ((tile.houseCount === 0 || tile.houseCount === undefined) && checkOwnsGroup(owner.id, tile.group, state.tiles)) {
-                        rent = baseRent * 2;
-                        logs.push(createLog(`租金翻倍！${owner.name} 拥有完整的 ${tile.group} 街区。`, 'warning'));
-                     } else {
-                        rent = baseRent;
-                     }
-                } else if (tile.type === TileType.STATION) {
-                    const stationsOwned = state.tiles.filter(t => t.group === ColorGroup.STATION && t.ownerId === owner.id).length;
-                    rent = 25 * Math.pow(2, stationsOwned - 1);
-                } else if (tile.type === TileType.UTILITY) {
-                    const utilitiesOwned = state.tiles.filter(t => t.group === ColorGroup.UTILITY && t.ownerId === owner.id).length;
-                    const diceSum = state.dice[0] + state.dice[1];
-                    rent = utilitiesOwned === 2 ? diceSum * 10 : diceSum * 4;
-                    logs.push(createLog(`公用事业费用计算: 点数 ${diceSum} x ${utilitiesOwned === 2 ? 10 : 4}`, 'info'));
-                }
-
-                logs.push(createLog(`${player.name} 向 ${owner.name} 支付租金 $${rent}。`, 'danger'));
-
-                const newPlayers = [...state.players];
-                const pIdx = newPlayers.findIndex(p => p.id === playerId);
-                const oIdx = newPlayers.findIndex(p => p.id === owner.id);
-                
-                newPlayers[pIdx].money -= rent;
-                newPlayers[oIdx].money += rent;
-
-                if (newPlayers[pIdx].money < 0) {
-                    newPlayers[pIdx].bankrupt = true;
-                    logs.push(createLog(`${player.name} 破产了！`, 'danger'));
-                    // Check End Game
-                    const active = newPlayers.filter(p => !p.bankrupt);
-                    if (active.length <= 1) {
-                         return { ...state, players: newPlayers, winner: active[0] || null, phase: GamePhase.GAME_OVER };
-                    }
-                    const newTiles = state.tiles.map(t => t.ownerId === playerId ? { ...t, ownerId: null, houseCount: 0 } : t);
-                    return { ...state, players: newPlayers, tiles: newTiles, phase: GamePhase.END_TURN, waitingForDoublesTurn: false };
-                }
-                return { ...state, players: newPlayers, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
-            }
-        } else if (!tile.ownerId) {
-             return { ...state, phase: GamePhase.ACTION, waitingForDoublesTurn: isDouble };
-        }
-      }
-
-      // 4. Tax
-      if (tile.type === TileType.TAX) {
-          const tax = tile.price || 100;
-          logs.push(createLog(`${player.name} 缴纳了 $${tax} 税款。`, 'danger'));
-          const newPlayers = [...state.players];
-          const idx = newPlayers.findIndex(p => p.id === playerId);
-          newPlayers[idx].money -= tax;
-          return { ...state, players: newPlayers, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
-      }
-
-      return { ...state, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
+  const resumeOfflineGame = () => {
+    if (!savedGame?.currentUser) return;
+    setIsOfflineMode(true);
+    setNickname(savedGame.currentUser.name);
+    setGameState(savedGame);
   };
 
-  const applyChanceEffect = (state: GameState, playerId: string, card: ChanceCard, isDouble: boolean, logs: GameLog[]): GameState => {
-        const newPlayers = [...state.players];
-        const pIndex = newPlayers.findIndex(p => p.id === playerId);
-        const player = newPlayers[pIndex];
-        
-        let nextPhase = isDouble ? GamePhase.ROLLING : GamePhase.END_TURN;
-        let waitingForDoubles = isDouble;
-
-        logs.push(createLog(`${player.name} 执行: ${card.title}`, 'info'));
-
-        switch(card.effectType) {
-            case 'MONEY':
-                player.money += card.value;
-                break;
-            case 'MOVE_TO':
-                if (card.value === 10 && card.description.includes("监狱")) { 
-                    player.position = 10;
-                    player.isInJail = true;
-                    player.jailTurns = 0;
-                    player.consecutiveDoubles = 0;
-                    logs.push(createLog(`${player.name} 被送进监狱！`, 'danger'));
-                    nextPhase = GamePhase.END_TURN; 
-                    waitingForDoubles = false;
-                } else {
-                    if (player.position > card.value) player.money += 200;
-                    player.position = card.value;
-                }
-                break;
-            case 'MOVE_STEPS':
-                let newPos = player.position + card.value;
-                if (newPos >= 40) { newPos -= 40; player.money += 200; }
-                if (newPos < 0) { newPos += 40; }
-                player.position = newPos;
-                break;
-            case 'GO_TO_JAIL':
-                player.position = 10;
-                player.isInJail = true;
-                player.jailTurns = 0;
-                player.consecutiveDoubles = 0;
-                logs.push(createLog(`${player.name} 被送进监狱！`, 'danger'));
-                nextPhase = GamePhase.END_TURN;
-                waitingForDoubles = false;
-                break;
-        }
-
-        return { 
-            ...state, 
-            players: newPlayers, 
-            phase: nextPhase, 
-            waitingForDoublesTurn: waitingForDoubles 
-        };
-  };
-
-  const checkOwnsGroup = (playerId: string | undefined | null, group: ColorGroup, allTiles: Tile[]) => {
-    if (!playerId || group === ColorGroup.NONE) return false;
-    const groupTiles = allTiles.filter(t => t.group === group);
-    return groupTiles.length > 0 && groupTiles.every(t => t.ownerId === playerId);
+  // Takes the seat back in the room this tab was last playing in; the server resends the game
+  const rejoinOnlineRoom = () => {
+    if (!onlineSession) return;
+    setNickname(onlineSession.user.name);
+    setGameState(prev => ({ ...prev, currentUser: onlineSession.user, phase: GamePhase.LOBBY_ROOMS }));
+    socket?.emit("rejoin_room", { roomId: onlineSession.roomId, playerId: onlineSession.user.id, token: onlineSession.token });
   };
 
-
   // --- ROOM MANAGEMENT ---
   const handleLogin = (offline: boolean) => {
     let currentNickname = nickname.trim();
@@ -624,8 +304,13 @@ const App: React.FC = () => {
             hostId: user.id,
             players: [{ ...user, isAI: false, isHost: true }],
             status: 'WAITING',
-            maxPlayers: 4,
-            createdAt: Date.now()
+            maxPlayers: DEFAULT_ROOM_PLAYERS,
+            rules: DEFAULT_RULES,
+            board: DEFAULT_BOARD,
+            seed: null,
+            createdAt: Date.now(),
+            isPrivate: true,
+            hasPassword: false
         };
         setRooms([dummyRoom]);
         setGameState(prev => ({ 
@@ -637,6 +322,11 @@ const App: React.FC = () => {
         }));
     } else {
         setGameState(prev => ({ ...prev, currentUser: user, phase: GamePhase.LOBBY_ROOMS }));
+        // Arrived through an invite link: try the room straight away
+        if (inviteCode) {
+            socket?.emit("join_room", { roomId: inviteCode, user });
+            window.history.replaceState(null, '', window.location.pathname);
+        }
     }
   };
 
@@ -646,13 +336,73 @@ const App: React.FC = () => {
     socket?.emit("create_room", { 
         roomName: newRoomName.trim(), 
         hostName: gameState.currentUser.name, 
-        hostId: gameState.currentUser.id 
+        hostId: gameState.currentUser.id,
+        isPrivate: newRoomPrivate,
+        password: newRoomPassword || undefined
     });
   };
 
-  const joinRoom = (roomId: string) => {
+  const joinRoom = (roomId: string, password?: string) => {
     if (!gameState.currentUser) return;
-    socket?.emit("join_room", { roomId, user: gameState.currentUser });
+    socket?.emit("join_room", { roomId, user: gameState.currentUser, password: password || undefined });
+  };
+
+  // Password rooms from the lobby list go through the invite form, where the password is typed in
+  const joinListedRoom = (room: Room) => {
+    if (room.hasPassword) {
+        setInviteCode(room.id);
+        setNotice('请在上方输入房间密码后加入');
+        return;
+    }
+    joinRoom(room.id);
+  };
+
+  const leaveRoom = () => {
+    if (!gameState.roomId) return;
+    if (isOfflineMode) {
+        clearOfflineGame();
+        setRooms([]);
+        setIsOfflineMode(false);
+        setGameState(prev => ({ ...prev, roomId: null, isHost: false, phase: GamePhase.LOGIN }));
+    } else {
+        socket?.emit("leave_room", { roomId: gameState.roomId });
+    }
+  };
+
+  const closeRoom = () => {
+    if (!gameState.roomId || !gameState.isHost || isOfflineMode) return;
+    socket?.emit("close_room", { roomId: gameState.roomId });
+  };
+
+  // Removes an AI seat, or kicks a human player (online only)
+  const removePlayer = (player: Room['players'][number]) => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    if (!room) return;
+
+    if (isOfflineMode) {
+        setRooms([{ ...room, players: room.players.filter(p => p.id !== player.id) }]);
+    } else {
+        socket?.emit(player.isAI ? "remove_ai" : "kick_player", { roomId: room.id, playerId: player.id });
+    }
+  };
+
+  const updateMaxPlayers = (maxPlayers: number) => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    if (!room || maxPlayers < Math.max(MIN_ROOM_PLAYERS, room.players.length) || maxPlayers > MAX_ROOM_PLAYERS) return;
+
+    if (isOfflineMode) {
+        setRooms([{ ...room, maxPlayers }]);
+    } else {
+        socket?.emit("update_room_settings", { roomId: room.id, settings: { maxPlayers } });
+    }
+  };
+
+  const updateLobbyFilter = (patch: Partial<LobbyFilter>) => {
+    const filter = { ...lobbyFilter, ...patch };
+    setLobbyFilter(filter);
+    socket?.emit("get_rooms", filter);
   };
 
   const addAI = () => {
@@ -661,14 +411,15 @@ const App: React.FC = () => {
     // Find current room
     const currentRoom = rooms.find(r => r.id === gameState.roomId);
     if (!currentRoom) return;
-    if (currentRoom.players.length >= 4) return;
+    if (currentRoom.players.length >= currentRoom.maxPlayers) return;
 
     const currentCount = currentRoom.players.filter(p => p.isAI).length + 1;
     const aiPlayer = { 
         id: generateId(), 
         name: `电脑 ${currentCount}`, 
         isAI: true, 
-        isHost: false 
+        isHost: false,
+        aiProfile: DEFAULT_AI_PROFILE
     };
 
     if (isOfflineMode) {
@@ -683,46 +434,65 @@ const App: React.FC = () => {
     }
   };
 
-  const handleStartGameRequest = () => {
+  const updateAIProfile = (playerId: string, patch: Partial<AIProfile>) => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    const seat = room?.players.find(p => p.id === playerId && p.isAI);
+    if (!room || !seat) return;
+
+    const aiProfile = sanitizeAIProfile({ ...seat.aiProfile, ...patch }, seat.aiProfile);
+    if (isOfflineMode) {
+        setRooms([{ ...room, players: room.players.map(p => p.id === playerId ? { ...p, aiProfile } : p) }]);
+    } else {
+        socket?.emit("update_ai_profile", { roomId: room.id, playerId, aiProfile });
+    }
+  };
+
+  const updateRules = (patch: Partial<RuleSet>) => {
     if (!gameState.roomId || !gameState.isHost) return;
     const room = rooms.find(r => r.id === gameState.roomId);
     if (!room) return;
 
-    const colors = ['#3b82f6', '#ef4444', '#eab308', '#22c55e'];
-    const icons = ['🚗', '✈️', '🚢', '🚀']; 
-
-    const gamePlayers: Player[] = room.players.map((p, i) => ({
-      id: p.id,
-      name: p.name,
-      color: colors[i % colors.length],
-      icon: p.isAI ? '🤖' : icons[i % icons.length], 
-      isAI: p.isAI,
-      money: INITIAL_MONEY,
-      position: 0,
-      isInJail: false,
-      jailTurns: 0,
-      consecutiveDoubles: 0,
-      properties: [],
-      bankrupt: false
-    }));
-
-    const initialState: GameState = {
-        players: gamePlayers,
-        currentPlayerIndex: 0,
-        tiles: INITIAL_TILES.map(t => ({...t, ownerId: null, houseCount: 0})),
-        dice: [1, 1],
-        phase: GamePhase.ROLLING,
-        logs: [{ id: 'init', message: "游戏开始！祝你好运。", type: 'info', timestamp: Date.now() }],
-        winner: null,
-        currentCard: null,
-        selectedTileId: null,
-        waitingForDoublesTurn: false,
-        currentUser: null, // Placeholder, kept from prev state
-        roomId: room.id,
-        isHost: true // Sent as template
-    };
+    const rules = sanitizeRules({ ...room.rules, ...patch }, room.rules);
+    if (isOfflineMode) {
+        setRooms([{ ...room, rules }]);
+    } else {
+        socket?.emit("update_room_settings", { roomId: room.id, settings: { rules } });
+    }
+  };
+
+  const updateBoard = (board: BoardDefinition) => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    if (!room) return;
+
+    if (isOfflineMode) {
+        setRooms([{ ...room, board }]);
+    } else {
+        socket?.emit("update_room_settings", { roomId: room.id, settings: { board } });
+    }
+  };
+
+  const updateSeed = (input: string) => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    if (!room) return;
+
+    const seed = parseSeed(input);
+    if (isOfflineMode) {
+        setRooms([{ ...room, seed }]);
+    } else {
+        socket?.emit("update_room_settings", { roomId: room.id, settings: { seed } });
+    }
+  };
+
+  const handleStartGameRequest = () => {
+    if (!gameState.roomId || !gameState.isHost) return;
+    const room = rooms.find(r => r.id === gameState.roomId);
+    if (!room) return;
 
     if (isOfflineMode) {
+        const initialState = createInitialState(room.players, room.id, room.rules, room.board, room.seed ?? undefined);
         setGameState(prev => ({
             ...initialState,
             currentUser: prev.currentUser,
@@ -730,51 +500,49 @@ const App: React.FC = () => {
             isHost: true
         }));
     } else {
-        socket?.emit("start_game", { roomId: gameState.roomId, initialGameState: initialState });
+        // The server builds the initial state itself
+        socket?.emit("start_game", { roomId: gameState.roomId });
     }
   };
 
 
-  // --- AI HOOK (HOST ONLY) ---
+  // --- AI HOOK (OFFLINE ONLY) ---
   useEffect(() => {
-    // Only Host runs AI (or Offline mode which is effectively host)
-    if (!gameState.isHost) return;
+    // Online games run AI turns on the server
+    if (!isOfflineMode) return;
 
-    const activeStates = [GamePhase.ROLLING, GamePhase.ACTION, GamePhase.END_TURN];
+    const activeStates = [GamePhase.ROLLING, GamePhase.ACTION, GamePhase.END_TURN, GamePhase.AUCTION, GamePhase.RAISING_FUNDS];
     if (!activeStates.includes(gameState.phase)) return;
 
-    const currentPlayer = getCurrentPlayer();
-    if (!currentPlayer || !currentPlayer.isAI || currentPlayer.bankrupt) return;
-
-    const runAITurn = async () => {
-      // Small delay for realism
-      await new Promise(r => setTimeout(r, 1000));
-
-      if (gameState.phase === GamePhase.ROLLING) {
-        if (currentPlayer.isInJail && currentPlayer.money >= 500) {
-            executeGameLogic({ type: 'PAY_BAIL', playerId: currentPlayer.id });
-            await new Promise(r => setTimeout(r, 500));
-            executeGameLogic({ type: 'ROLL', playerId: currentPlayer.id });
-        } else {
-            executeGameLogic({ type: 'ROLL', playerId: currentPlayer.id });
-        }
-      } else if (gameState.phase === GamePhase.ACTION) {
-         const decision = await getAIDecision(gameState, currentPlayer);
-         
-         if (decision.action === 'BUY') {
-            executeGameLogic({ type: 'BUY', playerId: currentPlayer.id });
-         } else if (decision.action === 'PAY_JAIL') {
-             // Handled above
-         } else {
-            executeGameLogic({ type: 'PASS', playerId: currentPlayer.id });
-         }
-      } else if (gameState.phase === GamePhase.END_TURN) {
-         executeGameLogic({ type: 'END_TURN', playerId: currentPlayer.id });
+    // Small delay for realism; re-planned whenever the situation changes
+    const timer = setTimeout(async () => {
+      const actions = await getPendingAIActions(gameStateRef.current);
+      for (let i = 0; i < actions.length; i++) {
+        if (i > 0) await new Promise(r => setTimeout(r, 500));
+        executeGameLogic(actions[i]);
       }
-    };
+    }, gameState.phase === GamePhase.AUCTION ? 800 : 1000);
+
+    return () => clearTimeout(timer);
+  }, [
+    // rngCounter moves on every roll, so a second double in a row (same phase, same player) is re-planned too
+    gameState.rngCounter,
+    gameState.phase, gameState.currentPlayerIndex, gameState.waitingForDoublesTurn,
+    gameState.pendingTrade?.id, gameState.auction?.highestBid, gameState.auction?.activeBidderIds.length,
+    gameState.debts.length, isOfflineMode
+  ]);
+
+  // --- AUCTION TIMER (OFFLINE ONLY) ---
+  useEffect(() => {
+    if (!isOfflineMode || !gameState.auction) return;
 
-    runAITurn();
-  }, [gameState.phase, gameState.currentPlayerIndex, gameState.waitingForDoublesTurn, gameState.isHost]); 
+    const closeTimer = setTimeout(() => {
+      const current = gameStateRef.current;
+      executeGameLogic({ type: 'CLOSE_AUCTION', playerId: current.players[current.currentPlayerIndex].id });
+    }, Math.max(0, gameState.auction.endsAt - Date.now()) + 100);
+
+    return () => clearTimeout(closeTimer);
+  }, [gameState.auction?.endsAt, isOfflineMode]);
 
   // --- RENDERING SCREENS ---
 
@@ -813,6 +581,28 @@ const App: React.FC = () => {
                     >
                         {nickname.trim() ? '单机练习 (无需联网)' : '单机练习 (自动生成昵称)'}
                     </button>
+
+                    {(savedGame || onlineSession) && (
+                        <div className="border-t border-gray-200 pt-3 flex flex-col gap-2">
+                            {savedGame && (
+                                <button
+                                    onClick={resumeOfflineGame}
+                                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-2 px-6 rounded-xl transition-all shadow"
+                                >
+                                    继续上次的单机对局 ({savedGame.currentUser?.name})
+                                </button>
+                            )}
+                            {onlineSession && (
+                                <button
+                                    onClick={rejoinOnlineRoom}
+                                    disabled={!isConnected}
+                                    className="w-full bg-sky-500 hover:bg-sky-600 disabled:bg-slate-300 text-white font-bold py-2 px-6 rounded-xl transition-all shadow"
+                                >
+                                    返回多人房间 ({onlineSession.user.name})
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
                 
                 {/* Connection Status Indicator */}
@@ -828,6 +618,7 @@ const App: React.FC = () => {
   if (gameState.phase === GamePhase.LOBBY_ROOMS) {
       return (
         <div className="min-h-screen bg-slate-100 p-4 md:p-8">
+            <Toast message={notice} />
             <div className="max-w-4xl mx-auto">
                 <div className="flex justify-between items-center mb-8">
                     <h1 className="text-3xl font-bold text-slate-800">游戏大厅</h1>
@@ -852,12 +643,73 @@ const App: React.FC = () => {
                             创建
                         </button>
                     </div>
+                    <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-slate-600">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={newRoomPrivate} onChange={(e) => setNewRoomPrivate(e.target.checked)} />
+                            私密房间 (不在大厅显示，凭邀请码加入)
+                        </label>
+                        <input
+                            type="password"
+                            value={newRoomPassword}
+                            onChange={(e) => setNewRoomPassword(e.target.value)}
+                            placeholder="房间密码 (可选)"
+                            maxLength={64}
+                            className="border border-slate-300 rounded-lg px-3 py-1.5"
+                        />
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+                    <h2 className="text-xl font-bold mb-4">通过邀请码加入</h2>
+                    <div className="flex flex-wrap gap-4">
+                        <input
+                            type="text"
+                            value={inviteCode}
+                            onChange={(e) => setInviteCode(e.target.value.trim())}
+                            placeholder="邀请码"
+                            className="flex-1 min-w-[8rem] border border-slate-300 rounded-lg px-4 py-2 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                        <input
+                            type="password"
+                            value={joinPassword}
+                            onChange={(e) => setJoinPassword(e.target.value)}
+                            placeholder="密码 (如需要)"
+                            className="flex-1 min-w-[8rem] border border-slate-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                        <button
+                            onClick={() => joinRoom(inviteCode, joinPassword)}
+                            disabled={!inviteCode}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold px-6 py-2 rounded-lg transition-colors"
+                        >
+                            加入
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-slate-600">
+                    <select
+                        value={lobbyFilter.status}
+                        onChange={(e) => updateLobbyFilter({ status: e.target.value as LobbyFilter['status'] })}
+                        className="border border-slate-300 rounded-lg px-3 py-1.5 bg-white"
+                    >
+                        <option value="ALL">全部房间</option>
+                        <option value="WAITING">等待中</option>
+                        <option value="PLAYING">进行中</option>
+                    </select>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={lobbyFilter.hideFull}
+                            onChange={(e) => updateLobbyFilter({ hideFull: e.target.checked })}
+                        />
+                        隐藏已满房间
+                    </label>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {rooms.map(room => (
                         <div key={room.id} className="bg-white rounded-xl shadow-md p-6 border border-slate-200 hover:shadow-lg transition-shadow">
-                            <h3 className="text-xl font-bold text-slate-800 mb-2 truncate">{room.name}</h3>
+                            <h3 className="text-xl font-bold text-slate-800 mb-2 truncate">{room.hasPassword && '🔒 '}{room.name}</h3>
                             <div className="flex justify-between text-sm text-slate-500 mb-4">
                                 <span>玩家: {room.players.length}/{room.maxPlayers}</span>
                                 <span className={room.status === 'PLAYING' ? 'text-green-600 font-bold' : 'text-amber-500'}>
@@ -865,7 +717,7 @@ const App: React.FC = () => {
                                 </span>
                             </div>
                             <button 
-                                onClick={() => joinRoom(room.id)}
+                                onClick={() => joinListedRoom(room)}
                                 disabled={room.status === 'PLAYING' || room.players.length >= room.maxPlayers}
                                 className="w-full bg-indigo-100 hover:bg-indigo-200 text-indigo-700 font-bold py-2 rounded-lg transition-colors disabled:opacity-50"
                             >
@@ -892,10 +744,20 @@ const App: React.FC = () => {
 
       return (
           <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+              <Toast message={notice} />
               <div className="bg-white rounded-2xl shadow-xl p-8 max-w-2xl w-full">
                   <div className="flex justify-between items-center mb-6 border-b pb-4">
                       <h2 className="text-2xl font-bold text-slate-800">{room.name} {isOfflineMode && '(单机)'}</h2>
-                      {/* Leave room logic omitted for brevity in network version - would need socket event */}
+                      <div className="flex gap-2">
+                          {isHost && !isOfflineMode && (
+                              <button onClick={closeRoom} className="text-sm px-3 py-1 bg-red-100 hover:bg-red-200 text-red-700 rounded font-bold">
+                                  解散房间
+                              </button>
+                          )}
+                          <button onClick={leaveRoom} className="text-sm px-3 py-1 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded font-bold">
+                              离开房间
+                          </button>
+                      </div>
                   </div>
 
                   <div className="space-y-4 mb-8">
@@ -907,11 +769,62 @@ const App: React.FC = () => {
                                   </div>
                                   <span className="font-medium text-slate-700">{p.name} {p.isAI ? '(电脑)' : ''}</span>
                                   {p.isHost && <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full">房主</span>}
+                                  {p.isAI && <AIProfilePicker profile={p.aiProfile} editable={isHost} onChange={(patch) => updateAIProfile(p.id, patch)} />}
                               </div>
+                              {isHost && !p.isHost && (p.isAI || !isOfflineMode) && (
+                                  <button onClick={() => removePlayer(p)} className="text-xs text-red-600 hover:underline">
+                                      {p.isAI ? '移除' : '踢出'}
+                                  </button>
+                              )}
                           </div>
                       ))}
                   </div>
 
+                  {!isOfflineMode && (
+                      <div className="flex items-center gap-2 mb-4 text-sm text-slate-700">
+                          <span className="font-medium">{room.isPrivate ? '🔐 私密房间' : '邀请'}{room.hasPassword && ' (有密码)'}</span>
+                          <span className="text-slate-500">邀请码</span>
+                          <code className="bg-slate-100 px-2 py-0.5 rounded font-mono">{room.id}</code>
+                          <button
+                              onClick={() => navigator.clipboard?.writeText(getInviteLink(room.id)).then(() => setNotice('邀请链接已复制'))}
+                              className="ml-auto text-xs px-2 py-1 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 rounded font-bold"
+                          >
+                              复制邀请链接
+                          </button>
+                      </div>
+                  )}
+
+                  <label className="flex items-center gap-2 mb-6 text-sm text-slate-700">
+                      <span className="font-medium">人数上限</span>
+                      <select
+                          value={room.maxPlayers}
+                          onChange={(e) => updateMaxPlayers(Number(e.target.value))}
+                          disabled={!isHost}
+                          className="border border-slate-300 rounded px-2 py-1 disabled:bg-slate-50"
+                      >
+                          {Array.from({ length: MAX_ROOM_PLAYERS - MIN_ROOM_PLAYERS + 1 }, (_, i) => MIN_ROOM_PLAYERS + i)
+                              .filter(n => n >= room.players.length)
+                              .map(n => <option key={n} value={n}>{n} 人</option>)}
+                      </select>
+                  </label>
+
+                  <BoardPicker board={room.board} editable={isHost} onChange={updateBoard} />
+                  <RulesPanel rules={room.rules} editable={isHost} onChange={updateRules} />
+
+                  <label className="flex items-center gap-2 mb-6 text-sm text-slate-700">
+                      <span className="font-medium">随机种子</span>
+                      <input
+                          type="number"
+                          min={0}
+                          value={room.seed ?? ''}
+                          onChange={(e) => updateSeed(e.target.value)}
+                          disabled={!isHost}
+                          placeholder="留空则随机"
+                          className="flex-1 border border-slate-300 rounded px-2 py-1 disabled:bg-slate-50"
+                      />
+                      <span className="text-xs text-slate-400">相同种子和操作可完整重现对局</span>
+                  </label>
+
                   <div className="flex gap-4">
                       {isHost && (
                           <>
@@ -924,7 +837,8 @@ const App: React.FC = () => {
                             </button>
                             <button 
                                 onClick={handleStartGameRequest}
-                                className="flex-1 bg-green-600 hover:bg-green-700 text-white font-bold py-3 rounded-xl transition-colors"
+                                disabled={room.players.length < MIN_ROOM_PLAYERS}
+                                className="flex-1 bg-green-600 hover:bg-green-700 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
                             >
                                 开始游戏
                             </button>
@@ -941,13 +855,21 @@ const App: React.FC = () => {
       );
   }
 
+  if (replaySource) {
+     return <ReplayViewer game={replaySource} onExit={() => setReplaySource(null)} />;
+  }
+
   if (gameState.phase === GamePhase.GAME_OVER) {
      return (
         <div className="min-h-screen bg-slate-900 flex items-center justify-center text-white">
             <div className="text-center">
                 <h1 className="text-6xl font-bold mb-4">游戏结束!</h1>
                 <p className="text-2xl text-indigo-300">获胜者: {gameState.winner?.name}</p>
-                <button onClick={() => window.location.reload()} className="mt-8 bg-white text-slate-900 px-6 py-2 rounded-lg font-bold">回到大厅</button>
+                <p className="mt-2 text-sm text-slate-400">本局种子: {gameState.rngSeed}</p>
+                <div className="mt-8 flex gap-4 justify-center">
+                    <button onClick={() => setReplaySource(gameState)} className="bg-indigo-500 text-white px-6 py-2 rounded-lg font-bold">观看回放</button>
+                    <button onClick={() => window.location.reload()} className="bg-white text-slate-900 px-6 py-2 rounded-lg font-bold">回到大厅</button>
+                </div>
             </div>
         </div>
      );
@@ -957,19 +879,25 @@ const App: React.FC = () => {
   if (!currentPlayer) return <div>Loading...</div>;
 
   const currentTile = gameState.tiles[currentPlayer.position];
+  // Connection status of each seat, kept up to date by the server's room updates
+  const roomSeats = rooms.find(r => r.id === gameState.roomId)?.players;
   const canBuy = (currentTile.type === TileType.PROPERTY || currentTile.type === TileType.STATION || currentTile.type === TileType.UTILITY) && !currentTile.ownerId;
   const selectedTile = gameState.selectedTileId !== null ? gameState.tiles.find(t => t.id === gameState.selectedTileId) : null;
   const isSelectedTileOwner = selectedTile?.ownerId === gameState.currentUser?.id;
   
-  // Upgrade check: Must be MY property, I must be active turn player (optional rule, but easier UI), and I own group.
-  const checkOwnsGroupLocal = (group: ColorGroup) => {
-      if (!gameState.currentUser) return false;
-      return checkOwnsGroup(gameState.currentUser.id, group, gameState.tiles);
-  };
-  
-  const canUpgrade = isSelectedTileOwner && 
-                     selectedTile?.type === TileType.PROPERTY && 
-                     checkOwnsGroupLocal(selectedTile.group);
+  // Ensure user can only act if it's their turn
+  const isMyTurn = gameState.currentUser?.id === currentPlayer.id;
+  // A player owing the open debt may sell houses to raise money on someone else's turn
+  const owesDebt = !!gameState.currentUser && gameState.debts[0]?.debtorId === gameState.currentUser.id;
+
+  // Building checks share the engine's rules: whole group owned, nothing mortgaged, build and sell evenly
+  const canUpgrade = isMyTurn && !!selectedTile && getBuildError(gameState, selectedTile, gameState.currentUser?.id) === null;
+  const canSellHouse = (isMyTurn || owesDebt) && !!selectedTile && getSellError(gameState, selectedTile, gameState.currentUser?.id) === null;
+
+  // Mortgage check: Must be MY property with no buildings left in its group
+  const canMortgage = isSelectedTileOwner && !!selectedTile && !selectedTile.isMortgaged && !groupHasBuildings(selectedTile.group, gameState.tiles);
+  const canUnmortgage = isSelectedTileOwner && !!selectedTile?.isMortgaged;
+  const myMoney = gameState.currentUser ? getPlayerById(gameState.currentUser.id)?.money ?? 0 : 0;
 
   // Dispatch wrappers
   const onRoll = () => dispatchAction('ROLL');
@@ -977,14 +905,25 @@ const App: React.FC = () => {
   const onPass = () => dispatchAction('PASS');
   const onEndTurn = () => dispatchAction('END_TURN');
   const onPayBail = () => dispatchAction('PAY_BAIL');
+  const onUseJailCard = () => dispatchAction('USE_JAIL_CARD');
   const onSurrender = () => dispatchAction('SURRENDER');
-  const onUpgrade = () => dispatchAction('UPGRADE');
-
-  // Ensure user can only act if it's their turn
-  const isMyTurn = gameState.currentUser?.id === currentPlayer.id;
+  const onUpgrade = () => dispatchAction('UPGRADE', { tileId: gameState.selectedTileId });
+  const onSellHouse = () => dispatchAction('SELL_HOUSE', { tileId: gameState.selectedTileId });
+  const onMortgage = () => dispatchAction('MORTGAGE', { tileId: gameState.selectedTileId });
+  const onUnmortgage = () => dispatchAction('UNMORTGAGE', { tileId: gameState.selectedTileId });
+  const onProposeTrade = (terms: TradeTerms) => dispatchAction('PROPOSE_TRADE', terms);
+  const onCounterTrade = (terms: TradeTerms) => dispatchAction('COUNTER_TRADE', terms);
+  const onAcceptTrade = () => dispatchAction('ACCEPT_TRADE');
+  const onRejectTrade = () => dispatchAction('REJECT_TRADE');
+  const onCancelTrade = () => dispatchAction('CANCEL_TRADE');
+  const onBid = (amount: number) => dispatchAction('BID', { amount });
+  const onDropOut = () => dispatchAction('DROP_OUT');
+  const onPayDebt = () => dispatchAction('PAY_DEBT');
+  const onDeclareBankruptcy = () => dispatchAction('DECLARE_BANKRUPTCY');
 
   return (
     <div className="h-screen bg-slate-100 flex flex-col md:flex-row overflow-hidden">
+      <Toast message={notice} />
       
       {/* CONTROL PANEL (Side/Top) */}
       <div className="w-full md:w-80 lg:w-96 p-4 flex flex-col gap-4 shadow-xl bg-white/95 backdrop-blur-sm md:h-full z-20 overflow-y-auto">
@@ -993,6 +932,11 @@ const App: React.FC = () => {
             <span className="bg-indigo-100 text-indigo-800 text-[10px] font-semibold px-2 py-0.5 rounded">
                 {isOfflineMode ? 'Offline' : (gameState.isHost ? 'Host' : 'Guest')} | Room: {rooms.find(r => r.id === gameState.roomId)?.name}
             </span>
+            {!isOfflineMode && (
+                <button onClick={leaveRoom} title="离开后由电脑接管你的座位" className="ml-auto text-[10px] px-2 py-0.5 bg-slate-200 hover:bg-slate-300 rounded font-semibold text-slate-600">
+                    离开
+                </button>
+            )}
         </div>
         
         {/* We pass the 'local' player to control panel, but actions are dispatched */}
@@ -1007,6 +951,8 @@ const App: React.FC = () => {
             onPass={onPass}
             onEndTurn={onEndTurn}
             onPayBail={onPayBail}
+            onUseJailCard={onUseJailCard}
+            rules={gameState.rules}
             onSurrender={onSurrender}
             waitingForDoubles={gameState.waitingForDoublesTurn}
         />
@@ -1032,6 +978,9 @@ const App: React.FC = () => {
                     ) : (
                          <p className="flex justify-between"><span className="text-slate-500">状态:</span> <span className="text-green-600 font-medium">可购买</span></p>
                     )}
+                    {selectedTile.isMortgaged && (
+                         <p className="flex justify-between"><span className="text-slate-500">抵押:</span> <span className="text-slate-700 font-medium">已抵押 (不收租金)</span></p>
+                    )}
                     {selectedTile.price && <p className="flex justify-between"><span className="text-slate-500">地价:</span> <span className="font-bold">${selectedTile.price}</span></p>}
                     {selectedTile.houseCost && <p className="flex justify-between"><span className="text-slate-500">房屋造价:</span> <span className="font-medium">${selectedTile.houseCost}/栋</span></p>}
                 </div>
@@ -1054,11 +1003,85 @@ const App: React.FC = () => {
                     <button 
                         onClick={onUpgrade}
                         className="mt-4 w-full py-2 bg-amber-500 hover:bg-amber-600 text-white font-bold rounded shadow transition-colors"
-                        disabled={!gameState.currentUser || getPlayerById(gameState.currentUser.id)!.money < (selectedTile.houseCost || 0)}
+                        disabled={myMoney < (selectedTile.houseCost || 0)}
                     >
                         升级房产 (-${selectedTile.houseCost})
                     </button>
                 )}
+
+                {canSellHouse && (
+                    <button 
+                        onClick={onSellHouse}
+                        className="mt-2 w-full py-2 bg-orange-600 hover:bg-orange-700 text-white font-bold rounded shadow transition-colors"
+                    >
+                        出售房屋 (+${getHouseSaleValue(selectedTile)})
+                    </button>
+                )}
+
+                {canMortgage && (
+                    <button 
+                        onClick={onMortgage}
+                        className="mt-2 w-full py-2 bg-slate-500 hover:bg-slate-600 text-white font-bold rounded shadow transition-colors"
+                    >
+                        抵押 (+${getMortgageValue(selectedTile)})
+                    </button>
+                )}
+
+                {canUnmortgage && (
+                    <button 
+                        onClick={onUnmortgage}
+                        className="mt-2 w-full py-2 bg-sky-600 hover:bg-sky-700 text-white font-bold rounded shadow transition-colors disabled:opacity-50"
+                        disabled={myMoney < getUnmortgageCost(selectedTile)}
+                    >
+                        赎回抵押 (-${getUnmortgageCost(selectedTile)})
+                    </button>
+                )}
+            </div>
+        )}
+
+        {gameState.debts.length > 0 && (
+            <DebtPanel
+                debt={gameState.debts[0]}
+                players={gameState.players}
+                currentUserId={gameState.currentUser?.id}
+                onPayDebt={onPayDebt}
+                onDeclareBankruptcy={onDeclareBankruptcy}
+            />
+        )}
+
+        {gameState.auction && (
+            <AuctionPanel
+                auction={gameState.auction}
+                tiles={gameState.tiles}
+                players={gameState.players}
+                currentUserId={gameState.currentUser?.id}
+                onBid={onBid}
+                onDropOut={onDropOut}
+            />
+        )}
+
+        {gameState.currentUser && (
+            <TradePanel
+                players={gameState.players}
+                tiles={gameState.tiles}
+                currentUserId={gameState.currentUser.id}
+                pendingTrade={gameState.pendingTrade}
+                onPropose={onProposeTrade}
+                onCounter={onCounterTrade}
+                onAccept={onAcceptTrade}
+                onReject={onRejectTrade}
+                onCancel={onCancelTrade}
+            />
+        )}
+
+        <div className="flex justify-between bg-white px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600">
+            <span className="font-semibold">银行库存</span>
+            <span>🏠 {gameState.houseSupply} 栋房屋 · 🏨 {gameState.hotelSupply} 家酒店</span>
+        </div>
+        {gameState.rules.freeParkingJackpot && (
+            <div className="flex justify-between bg-white px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600">
+                <span className="font-semibold">免费停车奖池</span>
+                <span>🅿️ ${gameState.freeParkingPot}</span>
             </div>
         )}
 
@@ -1073,6 +1096,7 @@ const App: React.FC = () => {
                         <div className="text-base">{p.icon}</div>
                         <div className="font-bold truncate max-w-[80px]">{p.name}</div>
                         {p.bankrupt && <span className="text-red-500 text-[10px]">[破产]</span>}
+                        <ConnectionBadge seat={roomSeats?.find(seat => seat.id === p.id)} />
                     </div>
                     <div className="text-slate-500 mt-1">${p.money} {p.isInJail && '🔒'}</div>
                 </div>
@@ -1082,34 +1106,7 @@ const App: React.FC = () => {
 
       {/* RIGHT PANEL: Board */}
       <div className="flex-1 bg-slate-200 flex items-center justify-center p-2 md:p-8 overflow-hidden relative">
-        <div className="w-full max-w-[90vh] aspect-square relative bg-[#CDE6D0] border-4 border-slate-800 shadow-2xl rounded-lg grid grid-cols-11 grid-rows-11 gap-0.5 p-0.5 text-[8px] md:text-xs">
-            
-            {/* Center Area */}
-            <div className="col-start-2 col-end-11 row-start-2 row-end-11 bg-[#CDE6D0] flex flex-col items-center justify-center relative overflow-hidden pointer-events-none">
-                {gameState.currentCard ? (
-                    <div className="bg-white rounded-xl shadow-2xl p-4 md:p-8 max-w-sm w-4/5 border-4 border-orange-400 flex flex-col items-center text-center z-50 pointer-events-auto animate-bounce-in">
-                        <div className="text-4xl md:text-6xl mb-2 md:mb-4">❓</div>
-                        <h3 className="text-lg md:text-2xl font-bold text-slate-800 mb-2">{gameState.currentCard.title}</h3>
-                        <p className="text-slate-600 mb-2 md:mb-4 text-sm md:text-lg">{gameState.currentCard.description}</p>
-                    </div>
-                ) : (
-                    <div className="flex flex-col items-center justify-center transform -rotate-45 opacity-10">
-                        <span className="text-4xl md:text-9xl font-black tracking-tighter text-slate-900 uppercase">Gemini</span>
-                        <span className="text-2xl md:text-7xl font-bold tracking-widest text-slate-900 uppercase">Poly</span>
-                    </div>
-                )}
-            </div>
-
-            {gameState.tiles.map(tile => (
-                <TileComponent 
-                    key={tile.id} 
-                    tile={tile} 
-                    playersOnTile={gameState.players.filter(p => p.position === tile.id && !p.bankrupt)}
-                    ownerColor={tile.ownerId ? getPlayerById(tile.ownerId)?.color : undefined}
-                    onClick={() => setGameState(prev => ({...prev, selectedTileId: tile.id}))}
-                />
-            ))}
-        </div>
+        <Board gameState={gameState} onTileClick={tileId => setGameState(prev => ({...prev, selectedTileId: tileId}))} />
       </div>
     </div>
   );
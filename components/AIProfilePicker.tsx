@@ -0,0 +1,47 @@
+import React from 'react';
+import { AIDifficulty, AIPersonality, AIProfile } from '../types';
+import { AI_DIFFICULTIES, AI_PERSONALITIES, DEFAULT_AI_PROFILE } from '../services/aiProfiles';
+
+interface AIProfilePickerProps {
+  profile?: AIProfile;
+  editable: boolean;
+  onChange: (patch: Partial<AIProfile>) => void;
+}
+
+const DIFFICULTY_LABELS: Record<AIDifficulty, string> = {
+  EASY: '简单',
+  NORMAL: '普通',
+  HARD: '困难'
+};
+
+const PERSONALITY_LABELS: Record<AIPersonality, { label: string; hint: string }> = {
+  BALANCED: { label: '均衡', hint: '买地、盖房和存钱都不走极端' },
+  BUILDER: { label: '激进建造者', hint: '不惜代价凑齐街区，尽早盖房' },
+  SAVER: { label: '谨慎储蓄者', hint: '保留大量现金，最多盖三栋房' },
+  COLLECTOR: { label: '车站收藏家', hint: '优先收集车站和公用事业' }
+};
+
+// Difficulty and personality of one AI seat, shown next to it in the room
+const AIProfilePicker: React.FC<AIProfilePickerProps> = ({ profile = DEFAULT_AI_PROFILE, editable, onChange }) => (
+  <div className="flex gap-1 text-xs">
+    <select
+      value={profile.difficulty}
+      onChange={(e) => onChange({ difficulty: e.target.value as AIDifficulty })}
+      disabled={!editable}
+      className="border border-slate-300 rounded px-1 py-0.5 disabled:bg-slate-50"
+    >
+      {AI_DIFFICULTIES.map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+    </select>
+    <select
+      value={profile.personality}
+      onChange={(e) => onChange({ personality: e.target.value as AIPersonality })}
+      disabled={!editable}
+      title={PERSONALITY_LABELS[profile.personality].hint}
+      className="border border-slate-300 rounded px-1 py-0.5 disabled:bg-slate-50"
+    >
+      {AI_PERSONALITIES.map(p => <option key={p} value={p} title={PERSONALITY_LABELS[p].hint}>{PERSONALITY_LABELS[p].label}</option>)}
+    </select>
+  </div>
+);
+
+export default AIProfilePicker;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { AuctionState, Player, Tile } from '../types';
+
+interface AuctionPanelProps {
+  auction: AuctionState;
+  tiles: Tile[];
+  players: Player[];
+  currentUserId?: string;
+  onBid: (amount: number) => void;
+  onDropOut: () => void;
+}
+
+const BID_INCREMENTS = [10, 50, 100];
+
+const AuctionPanel: React.FC<AuctionPanelProps> = ({ auction, tiles, players, currentUserId, onBid, onDropOut }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Re-render every second for the countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const isHouseLot = auction.lot === 'HOUSE';
+  const tile = tiles.find(t => t.id === auction.tileId);
+  const me = players.find(p => p.id === currentUserId);
+  // House lots are bid as a premium on top of the house cost of each bidder's own tile
+  const myTarget = me && isHouseLot ? tiles.find(t => t.id === auction.buildTargets[me.id]) : undefined;
+  const extraCost = myTarget?.houseCost || 0;
+  const leader = players.find(p => p.id === auction.highestBidderId);
+  const secondsLeft = Math.max(0, Math.ceil((auction.endsAt - now) / 1000));
+
+  const isBidding = !!me && auction.activeBidderIds.includes(me.id);
+  const isLeader = !!me && auction.highestBidderId === me.id;
+
+  return (
+    <div className="bg-amber-50 p-4 rounded-lg shadow border border-amber-300 text-sm space-y-3">
+      <div className="flex justify-between items-center border-b border-amber-200 pb-2">
+        <h3 className="font-bold text-slate-800">{isHouseLot ? '🏠 房屋短缺拍卖' : `🔨 拍卖: ${tile?.name}`}</h3>
+        <span className={`font-mono font-bold ${secondsLeft <= 3 ? 'text-red-600 animate-pulse' : 'text-slate-600'}`}>{secondsLeft}s</span>
+      </div>
+
+      <div className="flex justify-between">
+        <span className="text-slate-500">{isHouseLot ? '当前最高加价:' : '当前最高价:'}</span>
+        <span className="font-bold text-slate-800">
+          ${auction.highestBid} {leader ? `(${leader.name})` : '(暂无出价)'}
+        </span>
+      </div>
+      {myTarget && (
+        <div className="text-xs text-slate-500">赢得后建在 {myTarget.name}，另付造价 ${extraCost}</div>
+      )}
+      <div className="text-xs text-slate-500">
+        竞拍中: {auction.activeBidderIds.map(id => players.find(p => p.id === id)?.name).join('、')}
+      </div>
+
+      {isBidding && !isLeader && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {BID_INCREMENTS.map(step => (
+              <button
+                key={step}
+                onClick={() => onBid(auction.highestBid + step)}
+                disabled={me!.money < auction.highestBid + step + extraCost}
+                className="flex-1 py-1.5 bg-amber-500 hover:bg-amber-600 text-white font-bold rounded disabled:opacity-50"
+              >
+                +${step}
+              </button>
+            ))}
+          </div>
+          <button onClick={onDropOut} className="w-full py-1.5 bg-slate-200 hover:bg-slate-300 text-slate-700 font-bold rounded">
+            退出竞拍
+          </button>
+        </div>
+      )}
+      {isLeader && <div className="text-center text-green-700 font-bold">你是当前最高出价者</div>}
+    </div>
+  );
+};
+
+export default AuctionPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { GameState } from '../types';
+import TileComponent from './Tile';
+import CardModal from './CardModal';
+
+interface BoardProps {
+  gameState: GameState;
+  onTileClick?: (tileId: number) => void;
+}
+
+const Board: React.FC<BoardProps> = ({ gameState, onTileClick }) => {
+  // Tiles per side of the square board, corners included once
+  const boardSide = gameState.board.size / 4;
+
+  return (
+    <div
+        className="w-full max-w-[90vh] aspect-square relative bg-[#CDE6D0] border-4 border-slate-800 shadow-2xl rounded-lg grid gap-0.5 p-0.5 text-[8px] md:text-xs"
+        style={{ gridTemplateColumns: `repeat(${boardSide + 1}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${boardSide + 1}, minmax(0, 1fr))` }}
+    >
+
+        {/* Center Area */}
+        <div
+            className="bg-[#CDE6D0] flex flex-col items-center justify-center relative overflow-hidden pointer-events-none"
+            style={{ gridColumn: `2 / ${boardSide + 1}`, gridRow: `2 / ${boardSide + 1}` }}
+        >
+            {gameState.currentCard ? (
+                <CardModal card={gameState.currentCard} />
+            ) : (
+                <div className="flex flex-col items-center justify-center transform -rotate-45 opacity-10">
+                    <span className="text-4xl md:text-9xl font-black tracking-tighter text-slate-900 uppercase">Gemini</span>
+                    <span className="text-2xl md:text-7xl font-bold tracking-widest text-slate-900 uppercase">Poly</span>
+                </div>
+            )}
+        </div>
+
+        {gameState.tiles.map(tile => (
+            <TileComponent
+                key={tile.id}
+                tile={tile}
+                boardSize={gameState.board.size}
+                playersOnTile={gameState.players.filter(p => p.position === tile.id && !p.bankrupt)}
+                ownerColor={tile.ownerId ? gameState.players.find(p => p.id === tile.ownerId)?.color : undefined}
+                onClick={() => onTileClick?.(tile.id)}
+            />
+        ))}
+    </div>
+  );
+};
+
+export default Board;
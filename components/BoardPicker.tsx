@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { BoardDefinition } from '../types';
+import { DEFAULT_BOARD } from '../constants';
+import { validateBoard } from '../engine/board';
+
+interface BoardPickerProps {
+  board: BoardDefinition;
+  editable: boolean;
+  onChange: (board: BoardDefinition) => void;
+}
+
+// Lets the host swap in a board definition from a JSON file before the game starts
+const BoardPicker: React.FC<BoardPickerProps> = ({ board, editable, onChange }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (e) {
+      setErrors([`无法解析 JSON: ${(e as Error).message}`]);
+      return;
+    }
+
+    const result = validateBoard(parsed);
+    setErrors(result.errors);
+    if (result.board) onChange(result.board);
+  };
+
+  return (
+    <div className="mb-6 space-y-2 text-slate-700">
+      <h3 className="font-bold text-slate-800">棋盘</h3>
+      <div className="flex items-center justify-between bg-slate-50 p-3 rounded-lg text-sm">
+        <span className="font-medium">{board.name} <span className="text-slate-400">({board.size} 格)</span></span>
+        {editable && (
+          <div className="flex gap-2">
+            <label className="px-3 py-1 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 font-bold rounded cursor-pointer">
+              载入 JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => { loadFile(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </label>
+            {board.id !== DEFAULT_BOARD.id && (
+              <button
+                onClick={() => { setErrors([]); onChange(DEFAULT_BOARD); }}
+                className="px-3 py-1 bg-slate-200 hover:bg-slate-300 text-slate-700 font-bold rounded"
+              >
+                默认棋盘
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 list-disc list-inside max-h-40 overflow-y-auto">
+          {errors.map((error, i) => <li key={i}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BoardPicker;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ChanceCard, TileType } from '../types';
+
+interface CardModalProps {
+  card: ChanceCard;
+}
+
+const EFFECT_ICONS: Record<ChanceCard['effectType'], string> = {
+  MONEY: '💰',
+  MOVE_TO: '🧭',
+  MOVE_STEPS: '👣',
+  GO_TO_JAIL: '🚓',
+  JAIL_CARD: '🎫',
+  REPAIRS: '🔧',
+  PAY_EACH_PLAYER: '💸',
+  COLLECT_FROM_EACH_PLAYER: '🎁',
+  MOVE_TO_NEAREST: '🚉'
+};
+
+// One-line summary of what the card did, for the effects the title alone does not explain
+const describeEffect = (card: ChanceCard): string | null => {
+  switch (card.effectType) {
+    case 'JAIL_CARD':
+      return '已收入手中，入狱时可使用';
+    case 'REPAIRS':
+      return `房屋 $${card.value}/栋 · 酒店 $${card.hotelValue || 0}/家`;
+    case 'PAY_EACH_PLAYER':
+      return `向每位玩家支付 $${card.value}`;
+    case 'COLLECT_FROM_EACH_PLAYER':
+      return `每位玩家支付你 $${card.value}`;
+    case 'MOVE_TO_NEAREST':
+      return card.nearest === TileType.UTILITY ? '公用事业费按点数 x10 计算' : '车站租金翻倍';
+    default:
+      return null;
+  }
+};
+
+const CardModal: React.FC<CardModalProps> = ({ card }) => {
+  const effect = describeEffect(card);
+
+  return (
+    <div className="bg-white rounded-xl shadow-2xl p-4 md:p-8 max-w-sm w-4/5 border-4 border-orange-400 flex flex-col items-center text-center z-50 pointer-events-auto animate-bounce-in">
+      <div className="text-4xl md:text-6xl mb-2 md:mb-4">{EFFECT_ICONS[card.effectType] ?? '❓'}</div>
+      <h3 className="text-lg md:text-2xl font-bold text-slate-800 mb-2">{card.title}</h3>
+      <p className="text-slate-600 mb-2 md:mb-4 text-sm md:text-lg">{card.description}</p>
+      {effect && (
+        <span className="px-3 py-1 rounded-full bg-orange-100 text-orange-700 text-xs md:text-sm font-medium">{effect}</span>
+      )}
+    </div>
+  );
+};
+
+export default CardModal;
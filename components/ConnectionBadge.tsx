@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { RoomPlayer } from '../types';
+
+interface ConnectionBadgeProps {
+  seat?: RoomPlayer;
+}
+
+// Shows other players that a seat has dropped, and how long until the AI takes it over
+const ConnectionBadge: React.FC<ConnectionBadgeProps> = ({ seat }) => {
+  const [now, setNow] = useState(Date.now());
+  const graceEndsAt = seat?.graceEndsAt;
+
+  useEffect(() => {
+    if (!graceEndsAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [graceEndsAt]);
+
+  if (seat?.aiTakeover) {
+    return <span className="text-[10px] text-slate-500">[电脑托管]</span>;
+  }
+  if (graceEndsAt) {
+    const secondsLeft = Math.max(0, Math.ceil((graceEndsAt - now) / 1000));
+    return <span className="text-[10px] text-amber-600 animate-pulse">[掉线 {secondsLeft}s]</span>;
+  }
+  return null;
+};
+
+export default ConnectionBadge;
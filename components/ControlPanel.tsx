@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { GamePhase, Player, Tile } from '../types';
+import { GamePhase, Player, Tile, RuleSet } from '../types';
 
 interface ControlPanelProps {
   player: Player;
@@ -13,6 +13,8 @@ interface ControlPanelProps {
   onPass: () => void;
   onEndTurn: () => void;
   onPayBail: () => void;
+  onUseJailCard: () => void;
+  rules: RuleSet;
   onSurrender: () => void;
   waitingForDoubles?: boolean;
 }
@@ -47,7 +49,7 @@ const DiceFace = ({ value }: { value: number }) => {
 };
 
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
-  player, phase, currentTile, dice, canBuy, onRoll, onBuy, onPass, onEndTurn, onPayBail, onSurrender, waitingForDoubles
+  player, phase, currentTile, dice, canBuy, onRoll, onBuy, onPass, onEndTurn, onPayBail, onUseJailCard, rules, onSurrender, waitingForDoubles
 }) => {
   const isMyTurn = !player.isAI;
 
@@ -59,6 +61,8 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         case GamePhase.END_TURN: return '结束回合';
         case GamePhase.GAME_OVER: return '游戏结束';
         case GamePhase.SHOWING_CARD: return '机会卡';
+        case GamePhase.AUCTION: return '拍卖中';
+        case GamePhase.RAISING_FUNDS: return '筹集资金';
         default: return p;
     }
   };
@@ -74,7 +78,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     <p className="text-slate-500 text-xs md:text-sm font-medium">现金: ${player.money}</p>
                     {player.isInJail && (
                         <span className="bg-red-100 text-red-600 text-[10px] px-1.5 py-0.5 rounded-full font-bold">
-                            监狱中 ({player.jailTurns + 1}/3)
+                            监狱中 ({player.jailTurns + 1}/{rules.maxJailTurns})
                         </span>
                     )}
                 </div>
@@ -104,12 +108,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     >
                         尝试越狱
                     </button>
-                    {player.money >= 50 && (
+                    {player.money >= rules.bailAmount && (
                         <button 
                             onClick={onPayBail}
                             className="flex-1 py-2 md:py-3 bg-amber-600 hover:bg-amber-700 text-white font-bold rounded-lg shadow-md transition-colors text-sm md:text-base"
                         >
-                            保释 ($50)
+                            保释 (${rules.bailAmount})
+                        </button>
+                    )}
+                    {player.getOutOfJailCards > 0 && (
+                        <button 
+                            onClick={onUseJailCard}
+                            className="flex-1 py-2 md:py-3 bg-emerald-600 hover:bg-emerald-700 text-white font-bold rounded-lg shadow-md transition-colors text-sm md:text-base"
+                        >
+                            出狱卡 ({player.getOutOfJailCards})
                         </button>
                     )}
                 </div>
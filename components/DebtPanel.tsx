@@ -0,0 +1,54 @@
+import React from 'react';
+import { Debt, Player } from '../types';
+
+interface DebtPanelProps {
+  debt: Debt;
+  players: Player[];
+  currentUserId?: string;
+  onPayDebt: () => void;
+  onDeclareBankruptcy: () => void;
+}
+
+const DebtPanel: React.FC<DebtPanelProps> = ({ debt, players, currentUserId, onPayDebt, onDeclareBankruptcy }) => {
+  const debtor = players.find(p => p.id === debt.debtorId);
+  const creditor = players.find(p => p.id === debt.creditorId);
+  if (!debtor) return null;
+
+  const isDebtor = debtor.id === currentUserId;
+  const shortfall = Math.max(0, debt.amount - debtor.money);
+
+  return (
+    <div className="bg-red-50 p-4 rounded-lg shadow border border-red-300 text-sm space-y-2">
+      <h3 className="font-bold text-red-700">💸 筹集资金</h3>
+      <p className="text-slate-700">
+        {debtor.name} 欠 {creditor ? creditor.name : '银行'} <span className="font-bold">${debt.amount}</span>，
+        当前现金 ${debtor.money}{shortfall > 0 && <>，还差 <span className="font-bold text-red-600">${shortfall}</span></>}。
+      </p>
+
+      {isDebtor ? (
+        <>
+          <p className="text-xs text-slate-500">点击地块可出售房屋或抵押地产，也可以通过交易筹款。</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onPayDebt}
+              disabled={shortfall > 0}
+              className="flex-1 py-1.5 bg-green-600 hover:bg-green-700 text-white font-bold rounded disabled:opacity-50"
+            >
+              还款
+            </button>
+            <button
+              onClick={onDeclareBankruptcy}
+              className="flex-1 py-1.5 bg-red-600 hover:bg-red-700 text-white font-bold rounded"
+            >
+              宣告破产
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-slate-500 animate-pulse">等待 {debtor.name} 筹集资金...</p>
+      )}
+    </div>
+  );
+};
+
+export default DebtPanel;
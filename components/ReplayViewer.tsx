@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameState } from '../types';
+import { buildReplay, replayStateAt } from '../engine/replay';
+import Board from './Board';
+import GameLogComponent from './GameLog';
+
+interface ReplayViewerProps {
+  game: GameState;
+  onExit: () => void;
+}
+
+const PLAY_INTERVAL_MS = 700;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ game, onExit }) => {
+  const replay = useMemo(() => buildReplay(game), [game]);
+  const total = replay.journal.length;
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const frame = useMemo(() => replayStateAt(replay, step), [replay, step]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= total) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, total]);
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(total, target)));
+  };
+
+  const entry = step > 0 ? replay.journal[step - 1] : null;
+  const actor = entry ? frame.players.find(p => p.id === entry.action.playerId) : undefined;
+
+  return (
+    <div className="flex flex-col md:flex-row h-screen bg-slate-100 overflow-hidden">
+      <div className="w-full md:w-96 flex flex-col gap-4 p-4 h-1/2 md:h-full overflow-y-auto bg-slate-50 border-r border-slate-200 shadow-xl z-20">
+        <div className="flex justify-between items-center">
+          <h2 className="font-bold text-slate-800">📼 对局回放</h2>
+          <button onClick={onExit} className="text-sm px-3 py-1 bg-slate-200 hover:bg-slate-300 rounded font-bold text-slate-700">退出回放</button>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg shadow border border-slate-200 space-y-3 text-sm">
+          <div className="flex justify-between text-slate-500">
+            <span>第 {step} / {total} 步</span>
+            <span>种子: {game.rngSeed}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={total}
+            value={step}
+            onChange={e => goTo(Number(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex gap-2">
+            <button onClick={() => goTo(0)} className="flex-1 py-1.5 bg-slate-200 hover:bg-slate-300 rounded font-bold">⏮</button>
+            <button onClick={() => goTo(step - 1)} disabled={step === 0} className="flex-1 py-1.5 bg-slate-200 hover:bg-slate-300 rounded font-bold disabled:opacity-50">◀</button>
+            <button
+              onClick={() => (step >= total ? goTo(0) : setIsPlaying(p => !p))}
+              className="flex-1 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded font-bold"
+            >
+              {isPlaying ? '⏸' : '▶'}
+            </button>
+            <button onClick={() => goTo(step + 1)} disabled={step === total} className="flex-1 py-1.5 bg-slate-200 hover:bg-slate-300 rounded font-bold disabled:opacity-50">▶|</button>
+            <button onClick={() => goTo(total)} className="flex-1 py-1.5 bg-slate-200 hover:bg-slate-300 rounded font-bold">⏭</button>
+          </div>
+          <div className="text-xs text-slate-500">
+            {entry ? `${actor ? actor.name + ': ' : ''}${entry.action.type} · ${new Date(entry.at).toLocaleTimeString()}` : '开局'}
+          </div>
+          {replay.divergedAt !== null && (
+            <div className="text-xs text-red-600">
+              ⚠️ 从第 {replay.divergedAt + 1} 步起回放与记录不一致，之后的画面可能不准确。
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {frame.players.map(p => (
+            <div key={p.id} className={`p-2 rounded-lg border flex justify-between items-center text-sm ${p.bankrupt ? 'opacity-50 bg-slate-100' : 'bg-white'}`}>
+              <span className="font-bold">{p.icon} {p.name}</span>
+              <span className="font-mono text-green-700">${p.money}</span>
+            </div>
+          ))}
+        </div>
+
+        <GameLogComponent logs={frame.logs} />
+      </div>
+
+      <div className="flex-1 bg-slate-200 flex items-center justify-center p-2 md:p-8 overflow-hidden relative">
+        <Board gameState={frame} />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { RuleSet } from '../types';
+
+interface RulesPanelProps {
+  rules: RuleSet;
+  editable: boolean;
+  onChange: (patch: Partial<RuleSet>) => void;
+}
+
+const NUMBER_FIELDS: { key: 'startingMoney' | 'goSalary' | 'bailAmount' | 'maxJailTurns' | 'doublesLimit' | 'houseSupply' | 'hotelSupply'; label: string; step: number }[] = [
+  { key: 'startingMoney', label: '初始资金', step: 100 },
+  { key: 'goSalary', label: '起点奖励', step: 50 },
+  { key: 'bailAmount', label: '保释金', step: 10 },
+  { key: 'maxJailTurns', label: '最长坐牢回合', step: 1 },
+  { key: 'doublesLimit', label: '超速入狱 (连续双倍次数)', step: 1 },
+  { key: 'houseSupply', label: '银行房屋数量', step: 1 },
+  { key: 'hotelSupply', label: '银行酒店数量', step: 1 }
+];
+
+const FLAG_FIELDS: { key: 'auctionsEnabled' | 'freeParkingJackpot' | 'doubleSalaryOnGo' | 'noRentInJail'; label: string; hint: string }[] = [
+  { key: 'auctionsEnabled', label: '拍卖模式', hint: '玩家放弃购买的地产将进入限时拍卖' },
+  { key: 'freeParkingJackpot', label: '免费停车奖池', hint: '税款和罚款累积在免费停车格，停下的玩家全部拿走' },
+  { key: 'doubleSalaryOnGo', label: '起点双倍奖励', hint: '正好停在起点时领取双倍奖励' },
+  { key: 'noRentInJail', label: '坐牢不收租', hint: '地产主人在狱中时不收取租金' }
+];
+
+// Host-editable rule set shown in the room before the game starts
+const RulesPanel: React.FC<RulesPanelProps> = ({ rules, editable, onChange }) => (
+  <div className="mb-6 space-y-3 text-slate-700">
+    <h3 className="font-bold text-slate-800">房间规则</h3>
+    <div className="grid grid-cols-2 gap-3">
+      {NUMBER_FIELDS.map(({ key, label, step }) => (
+        <label key={key} className="flex flex-col text-sm">
+          <span className="text-slate-500 mb-1">{label}</span>
+          <input
+            type="number"
+            step={step}
+            value={rules[key]}
+            disabled={!editable}
+            onChange={(e) => onChange({ [key]: parseInt(e.target.value, 10) || 0 })}
+            className="border border-slate-300 rounded px-2 py-1 disabled:bg-slate-50"
+          />
+        </label>
+      ))}
+    </div>
+    {FLAG_FIELDS.map(({ key, label, hint }) => (
+      <label key={key} className={`flex items-center gap-2 ${editable ? 'cursor-pointer' : 'opacity-70'}`}>
+        <input type="checkbox" checked={rules[key]} onChange={() => onChange({ [key]: !rules[key] })} disabled={!editable} />
+        <span className="font-medium">{label}</span>
+        <span className="text-xs text-slate-400">{hint}</span>
+      </label>
+    ))}
+  </div>
+);
+
+export default RulesPanel;
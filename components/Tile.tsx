@@ -5,19 +5,23 @@ import { COLOR_MAP } from '../constants';
 
 interface TileProps {
   tile: TileType;
+  boardSize: number;
   playersOnTile: Player[];
   onClick: (tile: TileType) => void;
   ownerColor?: string;
 }
 
-const Tile: React.FC<TileProps> = ({ tile, playersOnTile, onClick, ownerColor }) => {
-  const isCorner = tile.id % 10 === 0;
+const Tile: React.FC<TileProps> = ({ tile, boardSize, playersOnTile, onClick, ownerColor }) => {
+  // The board is a square with `side` tiles per edge; tile 0 is the bottom-right corner
+  const side = boardSize / 4;
+  const last = side + 1;
+  const isCorner = tile.id % side === 0;
   
   const getGridStyle = (id: number) => {
-    if (id >= 0 && id <= 10) return { gridColumn: 11 - id, gridRow: 11 };
-    if (id >= 11 && id <= 19) return { gridColumn: 1, gridRow: 11 - (id - 10) };
-    if (id >= 20 && id <= 30) return { gridColumn: id - 19, gridRow: 1 };
-    if (id >= 31 && id <= 39) return { gridColumn: 11, gridRow: id - 29 };
+    if (id >= 0 && id <= side) return { gridColumn: last - id, gridRow: last };
+    if (id < side * 2) return { gridColumn: 1, gridRow: last - (id - side) };
+    if (id <= side * 3) return { gridColumn: id - side * 2 + 1, gridRow: 1 };
+    if (id < side * 4) return { gridColumn: last, gridRow: id - side * 3 + 1 };
     return {};
   };
 
@@ -79,6 +83,13 @@ const Tile: React.FC<TileProps> = ({ tile, playersOnTile, onClick, ownerColor })
         {renderHouses()}
       </div>
 
+      {/* Mortgaged overlay */}
+      {tile.isMortgaged && (
+        <div className="absolute inset-0 bg-slate-500/40 flex items-center justify-center pointer-events-none z-10">
+          <span className="bg-slate-700 text-white text-[8px] md:text-[10px] font-bold px-1 rounded -rotate-12">抵押</span>
+        </div>
+      )}
+
       {/* Players */}
       <div className="absolute bottom-0 left-0 right-0 flex justify-center items-end pb-1 px-1 pointer-events-none flex-wrap">
         {playersOnTile.map(p => (
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface ToastProps {
+  message: string | null;
+}
+
+// Short-lived notice, e.g. why the server refused an action
+const Toast: React.FC<ToastProps> = ({ message }) => {
+  if (!message) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-red-600 text-white text-sm font-bold px-4 py-2 rounded-lg shadow-lg">
+      ⚠️ {message}
+    </div>
+  );
+};
+
+export default Toast;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Player, Tile, TradeOffer, TradeTerms } from '../types';
+import { groupHasBuildings } from '../engine/helpers';
+
+interface TradePanelProps {
+  players: Player[];
+  tiles: Tile[];
+  currentUserId: string;
+  pendingTrade: TradeOffer | null;
+  onPropose: (terms: TradeTerms) => void;
+  onCounter: (terms: TradeTerms) => void;
+  onAccept: () => void;
+  onReject: () => void;
+  onCancel: () => void;
+}
+
+const emptyTerms = (toPlayerId: string): TradeTerms => ({
+  toPlayerId,
+  offeredProperties: [],
+  requestedProperties: [],
+  offeredMoney: 0,
+  requestedMoney: 0,
+  offeredJailCards: 0,
+  requestedJailCards: 0
+});
+
+const TradePanel: React.FC<TradePanelProps> = ({
+  players, tiles, currentUserId, pendingTrade, onPropose, onCounter, onAccept, onReject, onCancel
+}) => {
+  const [draft, setDraft] = useState<TradeTerms | null>(null);
+  const [isCounter, setIsCounter] = useState(false);
+
+  const me = players.find(p => p.id === currentUserId);
+  if (!me || me.bankrupt) return null;
+
+  const partners = players.filter(p => p.id !== me.id && !p.bankrupt);
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? '?';
+  const tileName = (id: number) => tiles.find(t => t.id === id)?.name ?? `#${id}`;
+
+  // Properties in a group with houses cannot change hands
+  const tradableTiles = (ownerId: string) =>
+    tiles.filter(t => t.ownerId === ownerId && !groupHasBuildings(t.group, tiles));
+
+  const describeSide = (tileIds: number[], money: number, jailCards: number) => {
+    const parts = tileIds.map(tileName);
+    if (money > 0) parts.push(`$${money}`);
+    if (jailCards > 0) parts.push(`${jailCards} 张出狱卡`);
+    return parts.length > 0 ? parts.join('、') : '无';
+  };
+
+  const toggle = (key: 'offeredProperties' | 'requestedProperties', tileId: number) => {
+    if (!draft) return;
+    const list = draft[key];
+    setDraft({ ...draft, [key]: list.includes(tileId) ? list.filter(id => id !== tileId) : [...list, tileId] });
+  };
+
+  const setNumber = (key: 'offeredMoney' | 'requestedMoney' | 'offeredJailCards' | 'requestedJailCards', value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, [key]: Math.max(0, parseInt(value, 10) || 0) });
+  };
+
+  const submit = () => {
+    if (!draft) return;
+    if (isCounter) onCounter(draft);
+    else onPropose(draft);
+    setDraft(null);
+    setIsCounter(false);
+  };
+
+  const startCounter = (offer: TradeOffer) => {
+    // Counter-offers start from the original terms, seen from our side
+    setDraft({
+      toPlayerId: offer.fromPlayerId,
+      offeredProperties: offer.requestedProperties,
+      requestedProperties: offer.offeredProperties,
+      offeredMoney: offer.requestedMoney,
+      requestedMoney: offer.offeredMoney,
+      offeredJailCards: offer.requestedJailCards,
+      requestedJailCards: offer.offeredJailCards
+    });
+    setIsCounter(true);
+  };
+
+  // --- EDITOR ---
+  if (draft) {
+    const partner = players.find(p => p.id === draft.toPlayerId);
+    return (
+      <div className="bg-white p-4 rounded-lg shadow border border-indigo-200 text-sm space-y-3">
+        <div className="flex justify-between items-center border-b pb-2">
+          <h3 className="font-bold text-slate-800">{isCounter ? '还价' : '发起交易'}</h3>
+          <button onClick={() => { setDraft(null); setIsCounter(false); }} className="text-slate-400 hover:text-slate-600 px-2">✕</button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-slate-500">交易对象:</span>
+          <select
+            value={draft.toPlayerId}
+            disabled={isCounter}
+            onChange={(e) => setDraft(emptyTerms(e.target.value))}
+            className="flex-1 border border-slate-300 rounded px-2 py-1"
+          >
+            {partners.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="font-semibold text-slate-600 mb-1">我给出</div>
+            {tradableTiles(me.id).map(t => (
+              <label key={t.id} className="flex items-center gap-1 text-xs">
+                <input type="checkbox" checked={draft.offeredProperties.includes(t.id)} onChange={() => toggle('offeredProperties', t.id)} />
+                {t.name}{t.isMortgaged ? ' (抵押)' : ''}
+              </label>
+            ))}
+            <input type="number" min={0} max={me.money} value={draft.offeredMoney} onChange={(e) => setNumber('offeredMoney', e.target.value)} className="mt-1 w-full border border-slate-300 rounded px-2 py-1 text-xs" placeholder="现金" />
+            {me.getOutOfJailCards > 0 && (
+              <input type="number" min={0} max={me.getOutOfJailCards} value={draft.offeredJailCards} onChange={(e) => setNumber('offeredJailCards', e.target.value)} className="mt-1 w-full border border-slate-300 rounded px-2 py-1 text-xs" placeholder="出狱卡" />
+            )}
+          </div>
+          <div>
+            <div className="font-semibold text-slate-600 mb-1">我索要</div>
+            {partner && tradableTiles(partner.id).map(t => (
+              <label key={t.id} className="flex items-center gap-1 text-xs">
+                <input type="checkbox" checked={draft.requestedProperties.includes(t.id)} onChange={() => toggle('requestedProperties', t.id)} />
+                {t.name}{t.isMortgaged ? ' (抵押)' : ''}
+              </label>
+            ))}
+            <input type="number" min={0} max={partner?.money} value={draft.requestedMoney} onChange={(e) => setNumber('requestedMoney', e.target.value)} className="mt-1 w-full border border-slate-300 rounded px-2 py-1 text-xs" placeholder="现金" />
+            {partner && partner.getOutOfJailCards > 0 && (
+              <input type="number" min={0} max={partner.getOutOfJailCards} value={draft.requestedJailCards} onChange={(e) => setNumber('requestedJailCards', e.target.value)} className="mt-1 w-full border border-slate-300 rounded px-2 py-1 text-xs" placeholder="出狱卡" />
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={submit}
+          className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded shadow transition-colors"
+        >
+          {isCounter ? '发送还价' : '发送提议'}
+        </button>
+      </div>
+    );
+  }
+
+  // --- OPEN OFFER ---
+  if (pendingTrade && (pendingTrade.fromPlayerId === me.id || pendingTrade.toPlayerId === me.id)) {
+    const isRecipient = pendingTrade.toPlayerId === me.id;
+    return (
+      <div className="bg-indigo-50 p-4 rounded-lg shadow border border-indigo-200 text-sm space-y-2">
+        <h3 className="font-bold text-slate-800">
+          {isRecipient ? `${nameOf(pendingTrade.fromPlayerId)} 向你提出交易` : `等待 ${nameOf(pendingTrade.toPlayerId)} 回应交易...`}
+        </h3>
+        <p className="text-xs text-slate-600">
+          {nameOf(pendingTrade.fromPlayerId)} 给出: {describeSide(pendingTrade.offeredProperties, pendingTrade.offeredMoney, pendingTrade.offeredJailCards)}
+        </p>
+        <p className="text-xs text-slate-600">
+          {nameOf(pendingTrade.toPlayerId)} 给出: {describeSide(pendingTrade.requestedProperties, pendingTrade.requestedMoney, pendingTrade.requestedJailCards)}
+        </p>
+        {isRecipient ? (
+          <div className="flex gap-2">
+            <button onClick={onAccept} className="flex-1 py-1.5 bg-green-600 hover:bg-green-700 text-white font-bold rounded">接受</button>
+            <button onClick={onReject} className="flex-1 py-1.5 bg-slate-500 hover:bg-slate-600 text-white font-bold rounded">拒绝</button>
+            <button onClick={() => startCounter(pendingTrade)} className="flex-1 py-1.5 bg-amber-500 hover:bg-amber-600 text-white font-bold rounded">还价</button>
+          </div>
+        ) : (
+          <button onClick={onCancel} className="w-full py-1.5 bg-slate-200 hover:bg-slate-300 text-slate-700 font-bold rounded">撤回提议</button>
+        )}
+      </div>
+    );
+  }
+
+  if (pendingTrade || partners.length === 0) return null;
+
+  return (
+    <button
+      onClick={() => setDraft(emptyTerms(partners[0].id))}
+      className="w-full py-2 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 font-bold rounded-lg transition-colors text-sm"
+    >
+      🤝 发起交易
+    </button>
+  );
+};
+
+export default TradePanel;
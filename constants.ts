@@ -1,6 +1,33 @@
-import { ColorGroup, Tile, TileType, ChanceCard } from './types';
+import { ColorGroup, Tile, TileType, ChanceCard, RuleSet, BoardDefinition } from './types';
 
-export const INITIAL_MONEY = 1500;
+export const DEFAULT_RULES: RuleSet = {
+  startingMoney: 1500,
+  goSalary: 200,
+  bailAmount: 50,
+  maxJailTurns: 3,
+  doublesLimit: 3,
+  auctionsEnabled: false,
+  freeParkingJackpot: false,
+  doubleSalaryOnGo: false,
+  noRentInJail: false,
+  houseSupply: 32,
+  hotelSupply: 12,
+};
+
+// Lifting a mortgage costs the mortgage value plus this interest
+export const MORTGAGE_INTEREST_RATE = 0.1;
+
+// Bidding closes this long after the last bid
+export const AUCTION_DURATION_MS = 10000;
+
+// Seats per room; the host picks a limit in this range
+export const MIN_ROOM_PLAYERS = 2;
+export const MAX_ROOM_PLAYERS = 8;
+export const DEFAULT_ROOM_PLAYERS = 4;
+
+// Once the bank is down to this many houses, a house another player could
+// also build goes to auction instead of to whoever asked first
+export const HOUSE_SHORTAGE_LIMIT = 4;
 
 export const COLOR_MAP: Record<ColorGroup, string> = {
   [ColorGroup.BROWN]: 'bg-amber-900',
@@ -71,4 +98,37 @@ export const CHANCE_CARDS: ChanceCard[] = [
   { id: 8, title: "前进三步", description: "向前移动 3 步。", effectType: 'MOVE_STEPS', value: 3 },
   { id: 9, title: "后退三步", description: "向后移动 3 步。", effectType: 'MOVE_STEPS', value: -3 },
   { id: 10, title: "去北京旅行", description: "直接前往北京 (如果经过起点，领 $200)。", effectType: 'MOVE_TO', value: 39 },
-];
\ No newline at end of file
+  { id: 11, title: "出狱许可", description: "保留此卡，可在入狱时免费出狱。", effectType: 'JAIL_CARD', value: 0 },
+  { id: 12, title: "前往最近的车站", description: "前进到最近的车站。若已有主人，支付双倍租金。", effectType: 'MOVE_TO_NEAREST', value: 0, nearest: TileType.STATION },
+  { id: 13, title: "前往最近的公用事业", description: "前进到最近的公用事业。若已有主人，支付点数 10 倍的费用。", effectType: 'MOVE_TO_NEAREST', value: 0, nearest: TileType.UTILITY },
+  { id: 14, title: "当选董事长", description: "向每位玩家支付 $50。", effectType: 'PAY_EACH_PLAYER', value: 50 },
+  { id: 15, title: "房屋大修", description: "每栋房屋支付 $25，每家酒店支付 $100。", effectType: 'REPAIRS', value: 25, hotelValue: 100 },
+];
+
+export const COMMUNITY_CHEST_CARDS: ChanceCard[] = [
+  { id: 101, title: "继承遗产", description: "你继承了一笔遗产，获得 $100。", effectType: 'MONEY', value: 100 },
+  { id: 102, title: "医疗费", description: "支付医疗费 $50。", effectType: 'MONEY', value: -50 },
+  { id: 103, title: "保险到期", description: "人寿保险到期，获得 $100。", effectType: 'MONEY', value: 100 },
+  { id: 104, title: "学费", description: "支付学费 $50。", effectType: 'MONEY', value: -50 },
+  { id: 105, title: "咨询费", description: "收到咨询费 $25。", effectType: 'MONEY', value: 25 },
+  { id: 106, title: "选美比赛", description: "你在选美比赛中获得二等奖，获得 $10。", effectType: 'MONEY', value: 10 },
+  { id: 107, title: "出售股票", description: "出售股票获利 $50。", effectType: 'MONEY', value: 50 },
+  { id: 108, title: "医院账单", description: "支付住院费 $100。", effectType: 'MONEY', value: -100 },
+  { id: 109, title: "直达起点", description: "回到起点，领取 $200。", effectType: 'MOVE_TO', value: 0 },
+  { id: 110, title: "前往监狱", description: "直接入狱，不经过起点，不领 $200。", effectType: 'GO_TO_JAIL', value: 0 },
+  { id: 111, title: "出狱许可", description: "保留此卡，可在入狱时免费出狱。", effectType: 'JAIL_CARD', value: 0 },
+  { id: 112, title: "生日快乐", description: "今天是你的生日，每位玩家送你 $10。", effectType: 'COLLECT_FROM_EACH_PLAYER', value: 10 },
+  { id: 113, title: "街道维修", description: "每栋房屋支付 $40，每家酒店支付 $115。", effectType: 'REPAIRS', value: 40, hotelValue: 115 },
+];
+
+export const DEFAULT_BOARD: BoardDefinition = {
+  id: 'china',
+  name: '中国城市',
+  size: INITIAL_TILES.length,
+  jailIndex: 10,
+  tiles: INITIAL_TILES,
+  decks: {
+    CHANCE: CHANCE_CARDS,
+    COMMUNITY_CHEST: COMMUNITY_CHEST_CARDS
+  }
+};
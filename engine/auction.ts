@@ -0,0 +1,193 @@
+import { GameState, GamePhase, Player, GameLog, AuctionState } from '../types';
+import { AUCTION_DURATION_MS } from '../constants';
+import { createLog, updatePlayer, updateTile, adjustMoney, setBuildingLevel, getBuildError } from './helpers';
+
+// Timed auctions for properties the landing player declined to buy, and for
+// single houses while the bank is running short. Bidding ends when only the
+// highest bidder is left or the timer runs out. `now` is passed in rather than
+// read from the clock so a replayed game closes its auctions exactly as before.
+
+export const startAuction = (state: GameState, tileId: number, logs: GameLog[], now: number): GameState => {
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile) return state;
+
+    const bidders = state.players.filter(p => !p.bankrupt).map(p => p.id);
+    logs.push(createLog(`${tile.name} 进入拍卖！所有玩家均可出价。`, 'info'));
+
+    return {
+        ...state,
+        phase: GamePhase.AUCTION,
+        auction: {
+            lot: 'PROPERTY',
+            tileId,
+            buildTargets: {},
+            resumePhase: state.waitingForDoublesTurn ? GamePhase.ROLLING : GamePhase.END_TURN,
+            highestBid: 0,
+            highestBidderId: null,
+            activeBidderIds: bidders,
+            endsAt: now + AUCTION_DURATION_MS
+        }
+    };
+};
+
+// Auctions one house among everyone who could build it. Bids are a premium on
+// top of the house cost; the player who asked for it leads at no premium.
+export const startHouseAuction = (state: GameState, initiatorId: string, buildTargets: Record<string, number>, logs: GameLog[], now: number): GameState => {
+    const tileId = buildTargets[initiatorId];
+    const initiator = state.players.find(p => p.id === initiatorId);
+    if (!initiator || tileId === undefined) return state;
+
+    logs.push(createLog(`银行仅剩 ${state.houseSupply} 栋房屋，${initiator.name} 申请建造，其他玩家可以加价争夺！`, 'warning'));
+
+    return {
+        ...state,
+        phase: GamePhase.AUCTION,
+        auction: {
+            lot: 'HOUSE',
+            tileId,
+            buildTargets,
+            resumePhase: state.phase,
+            highestBid: 0,
+            highestBidderId: initiatorId,
+            activeBidderIds: Object.keys(buildTargets),
+            endsAt: now + AUCTION_DURATION_MS
+        }
+    };
+};
+
+// Total a bidder pays if a bid of `bid` wins
+export const getAuctionCost = (state: GameState, auction: AuctionState, playerId: string, bid: number) => {
+    if (auction.lot === 'PROPERTY') return bid;
+    const target = state.tiles.find(t => t.id === auction.buildTargets[playerId]);
+    return bid + (target?.houseCost || 0);
+};
+
+// Builds the house for the winner, if they still can
+const settleHouseAuction = (state: GameState, auction: AuctionState, logs: GameLog[]): GameState => {
+    const winner = state.players.find(p => p.id === auction.highestBidderId);
+    const tile = state.tiles.find(t => t.id === (winner && auction.buildTargets[winner.id]));
+
+    if (!winner || winner.bankrupt || !tile || getBuildError(state, tile, winner.id)) {
+        logs.push(createLog("房屋拍卖作废，房屋仍归银行所有。"));
+        return state;
+    }
+    const cost = getAuctionCost(state, auction, winner.id, auction.highestBid);
+    if (winner.money < cost) {
+        logs.push(createLog(`${winner.name} 现金不足，房屋拍卖作废。`, 'warning'));
+        return state;
+    }
+
+    const houseCount = (tile.houseCount || 0) + 1;
+    let nextState = adjustMoney(state, winner.id, -cost);
+    nextState = setBuildingLevel(nextState, tile.id, houseCount);
+    logs.push(createLog(`${winner.name} 以 $${cost} 赢得房屋，${tile.name} 升级为 ${houseCount} 栋房屋。`, 'success'));
+
+    return nextState;
+};
+
+// Hands the lot to the highest bidder (if any) and resumes the turn
+const settleAuction = (state: GameState, logs: GameLog[]): GameState => {
+    const auction = state.auction;
+    if (!auction) return state;
+
+    let nextState: GameState = {
+        ...state,
+        auction: null,
+        phase: auction.resumePhase
+    };
+    if (auction.lot === 'HOUSE') return settleHouseAuction(nextState, auction, logs);
+
+    const tile = state.tiles.find(t => t.id === auction.tileId);
+    const winner = state.players.find(p => p.id === auction.highestBidderId);
+    if (!tile || !winner || winner.bankrupt || winner.money < auction.highestBid) {
+        logs.push(createLog(`${tile?.name} 流拍，仍归银行所有。`));
+        return nextState;
+    }
+
+    nextState = updatePlayer(nextState, winner.id, {
+        money: winner.money - auction.highestBid,
+        properties: [...winner.properties, tile.id]
+    });
+    nextState = updateTile(nextState, tile.id, { ownerId: winner.id });
+    logs.push(createLog(`${winner.name} 以 $${auction.highestBid} 拍得 ${tile.name}！`, 'success'));
+
+    return nextState;
+};
+
+// The auction is over once nobody is left to outbid the leader
+const isAuctionDecided = (state: GameState) => {
+    const auction = state.auction;
+    if (!auction) return false;
+    const others = auction.activeBidderIds.filter(id => id !== auction.highestBidderId);
+    return others.length === 0;
+};
+
+// --- AUCTION PROCESSORS ---
+
+export const processBid = (state: GameState, player: Player, amount: unknown, logs: GameLog[], now: number): GameState => {
+    const auction = state.auction;
+    if (!auction || !auction.activeBidderIds.includes(player.id)) return state;
+
+    const bid = Math.floor(Number(amount) || 0);
+    if (bid <= auction.highestBid) {
+        logs.push(createLog(`出价必须高于当前最高价 $${auction.highestBid}。`, 'warning'));
+        return state;
+    }
+    if (getAuctionCost(state, auction, player.id, bid) > player.money) {
+        logs.push(createLog(`${player.name} 现金不足，无法出价 $${bid}。`, 'warning'));
+        return state;
+    }
+
+    logs.push(createLog(`${player.name} 出价 $${bid}。`));
+    const nextState: GameState = {
+        ...state,
+        auction: {
+            ...auction,
+            highestBid: bid,
+            highestBidderId: player.id,
+            endsAt: now + AUCTION_DURATION_MS
+        }
+    };
+
+    return isAuctionDecided(nextState) ? settleAuction(nextState, logs) : nextState;
+};
+
+export const processDropOut = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const auction = state.auction;
+    if (!auction || !auction.activeBidderIds.includes(player.id)) return state;
+    // The leader is committed to their bid
+    if (auction.highestBidderId === player.id) return state;
+
+    logs.push(createLog(`${player.name} 退出了竞拍。`));
+    const nextState: GameState = {
+        ...state,
+        auction: { ...auction, activeBidderIds: auction.activeBidderIds.filter(id => id !== player.id) }
+    };
+
+    return isAuctionDecided(nextState) ? settleAuction(nextState, logs) : nextState;
+};
+
+export const processCloseAuction = (state: GameState, logs: GameLog[], now: number): GameState => {
+    if (!state.auction || now < state.auction.endsAt) return state;
+
+    logs.push(createLog("拍卖时间到！"));
+    return settleAuction(state, logs);
+};
+
+// Drops a player who has left the game from a running auction
+export const removeFromAuction = (state: GameState, playerId: string, logs: GameLog[]): GameState => {
+    const auction = state.auction;
+    if (!auction || !auction.activeBidderIds.includes(playerId)) return state;
+
+    const nextState: GameState = {
+        ...state,
+        auction: {
+            ...auction,
+            activeBidderIds: auction.activeBidderIds.filter(id => id !== playerId),
+            highestBid: auction.highestBidderId === playerId ? 0 : auction.highestBid,
+            highestBidderId: auction.highestBidderId === playerId ? null : auction.highestBidderId
+        }
+    };
+
+    return isAuctionDecided(nextState) ? settleAuction(nextState, logs) : nextState;
+};
@@ -0,0 +1,180 @@
+import { BoardDefinition, CardDeck, ChanceCard, ColorGroup, Tile, TileType } from '../types';
+
+// Custom boards arrive as JSON, so everything the engine relies on is checked
+// here: a square layout, START at 0, a JAIL tile at jailIndex, complete rent
+// tables and card decks for every card tile. Errors name the offending field.
+
+export interface BoardValidationResult {
+    board: BoardDefinition | null;
+    errors: string[];
+}
+
+const TILE_TYPES = Object.values(TileType) as string[];
+const COLOR_GROUPS = Object.values(ColorGroup) as string[];
+const EFFECT_TYPES: ChanceCard['effectType'][] = [
+    'MONEY', 'MOVE_TO', 'MOVE_STEPS', 'GO_TO_JAIL', 'JAIL_CARD', 'REPAIRS',
+    'PAY_EACH_PLAYER', 'COLLECT_FROM_EACH_PLAYER', 'MOVE_TO_NEAREST'
+];
+const DECKS: { key: CardDeck; tileType: TileType }[] = [
+    { key: 'CHANCE', tileType: TileType.CHANCE },
+    { key: 'COMMUNITY_CHEST', tileType: TileType.COMMUNITY_CHEST }
+];
+const STREET_GROUPS = COLOR_GROUPS.filter(g => g !== ColorGroup.NONE && g !== ColorGroup.STATION && g !== ColorGroup.UTILITY);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const validateTile = (raw: unknown, index: number, errors: string[]): Tile | null => {
+    const at = `tiles[${index}]`;
+    if (!isObject(raw)) {
+        errors.push(`${at} 必须是对象`);
+        return null;
+    }
+
+    const startCount = errors.length;
+    if (raw.id !== index) errors.push(`${at}.id 必须等于它的位置 ${index}`);
+    if (!isNonEmptyString(raw.name)) errors.push(`${at}.name 不能为空`);
+    if (typeof raw.type !== 'string' || !TILE_TYPES.includes(raw.type)) errors.push(`${at}.type 无效，可选: ${TILE_TYPES.join(', ')}`);
+    if (typeof raw.group !== 'string' || !COLOR_GROUPS.includes(raw.group)) errors.push(`${at}.group 无效，可选: ${COLOR_GROUPS.join(', ')}`);
+    if (errors.length > startCount) return null;
+
+    const rent = raw.rent;
+    const rentIsValid = Array.isArray(rent) && rent.length > 0 && rent.every(isCount);
+
+    switch (raw.type) {
+        case TileType.PROPERTY:
+            if (!isPositive(raw.price)) errors.push(`${at}.price 必须是正数`);
+            if (!isPositive(raw.houseCost)) errors.push(`${at}.houseCost 必须是正数`);
+            if (!rentIsValid || (rent as number[]).length !== 6) errors.push(`${at}.rent 必须是 6 个非负整数 (空地、1-4 栋房屋、酒店)`);
+            if (!STREET_GROUPS.includes(raw.group as string)) errors.push(`${at}.group 必须是街区颜色`);
+            break;
+        case TileType.STATION:
+            if (!isPositive(raw.price)) errors.push(`${at}.price 必须是正数`);
+            if (!rentIsValid) errors.push(`${at}.rent 必须按拥有车站数量列出租金`);
+            if (raw.group !== ColorGroup.STATION) errors.push(`${at}.group 必须是 ${ColorGroup.STATION}`);
+            break;
+        case TileType.UTILITY:
+            if (!isPositive(raw.price)) errors.push(`${at}.price 必须是正数`);
+            if (raw.group !== ColorGroup.UTILITY) errors.push(`${at}.group 必须是 ${ColorGroup.UTILITY}`);
+            break;
+        case TileType.TAX:
+            if (!isPositive(raw.price)) errors.push(`${at}.price (税额) 必须是正数`);
+            break;
+    }
+    if (errors.length > startCount) return null;
+
+    return {
+        id: index,
+        name: raw.name as string,
+        type: raw.type as TileType,
+        group: raw.group as ColorGroup,
+        ...(raw.price !== undefined && { price: raw.price as number }),
+        ...(rentIsValid && { rent: rent as number[] }),
+        ...(raw.houseCost !== undefined && { houseCost: raw.houseCost as number })
+    };
+};
+
+const validateCard = (raw: unknown, at: string, size: number, tiles: Tile[], errors: string[]): ChanceCard | null => {
+    if (!isObject(raw)) {
+        errors.push(`${at} 必须是对象`);
+        return null;
+    }
+
+    const startCount = errors.length;
+    if (!Number.isInteger(raw.id)) errors.push(`${at}.id 必须是整数`);
+    if (!isNonEmptyString(raw.title)) errors.push(`${at}.title 不能为空`);
+    if (!isNonEmptyString(raw.description)) errors.push(`${at}.description 不能为空`);
+    if (!EFFECT_TYPES.includes(raw.effectType as ChanceCard['effectType'])) errors.push(`${at}.effectType 无效，可选: ${EFFECT_TYPES.join(', ')}`);
+    if (typeof raw.value !== 'number' || !Number.isFinite(raw.value)) errors.push(`${at}.value 必须是数字`);
+    if (errors.length > startCount) return null;
+
+    const value = raw.value as number;
+    switch (raw.effectType) {
+        case 'MOVE_TO':
+            if (!Number.isInteger(value) || value < 0 || value >= size) errors.push(`${at}.value 必须是 0 到 ${size - 1} 之间的格子编号`);
+            break;
+        case 'MOVE_STEPS':
+            if (!Number.isInteger(value) || Math.abs(value) >= size) errors.push(`${at}.value 步数超出棋盘大小`);
+            break;
+        case 'REPAIRS':
+            if (!isCount(value) || !isCount(raw.hotelValue)) errors.push(`${at} 需要非负整数 value (每栋房屋) 和 hotelValue (每家酒店)`);
+            break;
+        case 'PAY_EACH_PLAYER':
+        case 'COLLECT_FROM_EACH_PLAYER':
+            if (!isCount(value)) errors.push(`${at}.value 必须是非负整数`);
+            break;
+        case 'MOVE_TO_NEAREST':
+            if (raw.nearest !== TileType.STATION && raw.nearest !== TileType.UTILITY) {
+                errors.push(`${at}.nearest 必须是 ${TileType.STATION} 或 ${TileType.UTILITY}`);
+            } else if (!tiles.some(t => t.type === raw.nearest)) {
+                errors.push(`${at}.nearest 指向的 ${raw.nearest} 在棋盘上不存在`);
+            }
+            break;
+    }
+    if (errors.length > startCount) return null;
+
+    return raw as unknown as ChanceCard;
+};
+
+export const validateBoard = (input: unknown): BoardValidationResult => {
+    const errors: string[] = [];
+    if (!isObject(input)) return { board: null, errors: ['棋盘定义必须是 JSON 对象'] };
+
+    if (!isNonEmptyString(input.id)) errors.push('id 不能为空');
+    if (!isNonEmptyString(input.name)) errors.push('name 不能为空');
+    if (!Array.isArray(input.tiles)) return { board: null, errors: [...errors, 'tiles 必须是数组'] };
+
+    const size = input.size;
+    if (!Number.isInteger(size) || (size as number) < 8 || (size as number) % 4 !== 0) {
+        errors.push('size 必须是不小于 8 的 4 的倍数 (棋盘为正方形)');
+    } else if (size !== input.tiles.length) {
+        errors.push(`size 为 ${size}，但 tiles 有 ${input.tiles.length} 个`);
+    }
+
+    const tiles = input.tiles.map((raw, i) => validateTile(raw, i, errors)).filter((t): t is Tile => t !== null);
+    if (errors.length > 0) return { board: null, errors };
+
+    if (tiles[0].type !== TileType.START) errors.push('tiles[0] 必须是起点 (START)');
+    if (tiles.filter(t => t.type === TileType.START).length !== 1) errors.push('棋盘上必须恰好有一个起点');
+
+    const jailIndex = input.jailIndex;
+    if (!Number.isInteger(jailIndex) || (jailIndex as number) < 0 || (jailIndex as number) >= tiles.length) {
+        errors.push(`jailIndex 必须是 0 到 ${tiles.length - 1} 之间的格子编号`);
+    } else if (tiles[jailIndex as number].type !== TileType.JAIL) {
+        errors.push(`jailIndex 指向的 tiles[${jailIndex}] 不是监狱 (JAIL)`);
+    }
+
+    const rawDecks = isObject(input.decks) ? input.decks : {};
+    const decks = {} as Record<CardDeck, ChanceCard[]>;
+    DECKS.forEach(({ key, tileType }) => {
+        const rawDeck = rawDecks[key] ?? [];
+        if (!Array.isArray(rawDeck)) {
+            errors.push(`decks.${key} 必须是数组`);
+            return;
+        }
+        if (rawDeck.length === 0 && tiles.some(t => t.type === tileType)) {
+            errors.push(`棋盘上有 ${tileType} 格子，decks.${key} 不能为空`);
+        }
+        decks[key] = rawDeck
+            .map((raw, i) => validateCard(raw, `decks.${key}[${i}]`, tiles.length, tiles, errors))
+            .filter((c): c is ChanceCard => c !== null);
+        if (new Set(decks[key].map(c => c.id)).size !== decks[key].length) errors.push(`decks.${key} 中的卡牌 id 不能重复`);
+    });
+
+    if (errors.length > 0) return { board: null, errors };
+
+    return {
+        board: {
+            id: input.id as string,
+            name: input.name as string,
+            size: tiles.length,
+            jailIndex: jailIndex as number,
+            tiles,
+            decks
+        },
+        errors: []
+    };
+};
@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { reduce, createInitialState } from './gameEngine';
+import { drawCard } from './cards';
+import { createSeededRng } from './random';
+import { GameState } from '../types';
+
+const JAIL_CARD = 111; // Community Chest's get-out-of-jail card
+
+const newGame = () => createInitialState([
+    { id: 'A', name: 'A', isAI: false, isHost: true },
+    { id: 'B', name: 'B', isAI: false, isHost: false }
+], 'test', undefined, undefined, 1);
+
+// Draws every card of a freshly reshuffled Community Chest deck
+const drawAll = (state: GameState) => {
+    const { rng } = createSeededRng(state.rngSeed, state.rngCounter);
+    const drawn: number[] = [];
+    let current: GameState = { ...state, decks: { ...state.decks, COMMUNITY_CHEST: [] } };
+    do {
+        const result = drawCard(current, 'COMMUNITY_CHEST', [], rng);
+        if (result.card) drawn.push(result.card.id);
+        current = result.state;
+    } while (current.decks.COMMUNITY_CHEST.length > 0);
+    return drawn;
+};
+
+test('a jail card held by a player stays out of the reshuffled deck', () => {
+    const game = newGame();
+    const holding: GameState = {
+        ...game,
+        heldJailCards: [JAIL_CARD],
+        players: game.players.map(p => p.id === 'A' ? { ...p, getOutOfJailCards: 1 } : p)
+    };
+
+    const drawn = drawAll(holding);
+    assert.ok(!drawn.includes(JAIL_CARD));
+    assert.equal(drawn.length, game.board.decks.COMMUNITY_CHEST.length - 1);
+
+    // Without the card in anyone's hand it is shuffled in as usual
+    assert.ok(drawAll(game).includes(JAIL_CARD));
+});
+
+test('drawing a jail card holds it until it is used, then it goes to the bottom of its deck', () => {
+    const game = newGame();
+    const { rng } = createSeededRng(game.rngSeed, game.rngCounter);
+    const { state: drawn } = drawCard(
+        { ...game, decks: { ...game.decks, COMMUNITY_CHEST: [JAIL_CARD, 101] } }, 'COMMUNITY_CHEST', [], rng);
+    assert.deepEqual(drawn.heldJailCards, [JAIL_CARD]);
+
+    const jailed: GameState = {
+        ...drawn,
+        players: drawn.players.map(p => p.id === 'A' ? { ...p, getOutOfJailCards: 1, isInJail: true } : p)
+    };
+    const { state: used } = reduce(jailed, { type: 'USE_JAIL_CARD', playerId: 'A' }, 0);
+    assert.deepEqual(used.heldJailCards, []);
+    assert.deepEqual(used.decks.COMMUNITY_CHEST, [101, JAIL_CARD]);
+});
@@ -0,0 +1,67 @@
+import { GameState, GameLog, ChanceCard, CardDeck } from '../types';
+import { Rng, createLog } from './helpers';
+
+// Chance and Community Chest are real decks: shuffled once at the start, drawn
+// from the top and reshuffled only when a pile runs out. The draw piles live in
+// GameState so every client sees the same order. The cards themselves come from
+// the board definition.
+
+const DECK_NAMES: Record<CardDeck, string> = {
+    CHANCE: '机会',
+    COMMUNITY_CHEST: '命运'
+};
+
+// Fisher-Yates shuffle of a copy
+const shuffle = <T>(items: T[], rng: Rng): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const shuffleDeck = (cards: ChanceCard[], rng: Rng) => shuffle(cards.map(c => c.id), rng);
+
+export const createDecks = (cards: Record<CardDeck, ChanceCard[]>, rng: Rng): Record<CardDeck, number[]> => ({
+    CHANCE: shuffleDeck(cards.CHANCE, rng),
+    COMMUNITY_CHEST: shuffleDeck(cards.COMMUNITY_CHEST, rng)
+});
+
+// A "go to jail" card, or a move to the jail square that locks the player up
+// rather than just visiting (older boards encode it that way)
+export const sendsToJail = (card: ChanceCard, jailIndex: number) =>
+    card.effectType === 'GO_TO_JAIL' ||
+    (card.effectType === 'MOVE_TO' && card.value === jailIndex && card.description.includes("监狱"));
+
+// Takes the top card of a deck, reshuffling the deck first if it is empty.
+// Jail cards still in a player's hand stay out of the reshuffle.
+// Returns no card if the board defines none for this deck.
+export const drawCard = (state: GameState, deck: CardDeck, logs: GameLog[], rng: Rng): { state: GameState; card: ChanceCard | null } => {
+    const cards = state.board.decks[deck].filter(c => !state.heldJailCards.includes(c.id));
+    let pile = state.decks[deck];
+    if (pile.length === 0) {
+        if (cards.length === 0) return { state, card: null };
+        logs.push(createLog(`${DECK_NAMES[deck]}卡已抽完，重新洗牌。`));
+        pile = shuffleDeck(cards, rng);
+    }
+
+    const card = cards.find(c => c.id === pile[0]) ?? null;
+    const heldJailCards = card?.effectType === 'JAIL_CARD' ? [...state.heldJailCards, card.id] : state.heldJailCards;
+    return { state: { ...state, decks: { ...state.decks, [deck]: pile.slice(1) }, heldJailCards }, card };
+};
+
+// Puts `count` held jail cards back at the bottom of the decks they came from,
+// once they are used or their holder leaves the game. Which of several held
+// cards goes back does not matter: players only keep a count.
+export const returnJailCards = (state: GameState, count: number): GameState => {
+    const returned = state.heldJailCards.slice(0, count);
+    if (returned.length === 0) return state;
+
+    const decks = { ...state.decks };
+    returned.forEach(id => {
+        const deck = (Object.keys(state.board.decks) as CardDeck[]).find(d => state.board.decks[d].some(c => c.id === id));
+        if (deck) decks[deck] = [...decks[deck], id];
+    });
+    return { ...state, decks, heldJailCards: state.heldJailCards.slice(count) };
+};
@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { reduce, createInitialState } from './gameEngine';
+import { randomAt } from './random';
+import { GameState, GamePhase, NetworkAction } from '../types';
+
+const COMMUNITY_CHEST_TILE = 17;
+const BIRTHDAY_CARD = 112;
+
+const apply = (state: GameState, action: NetworkAction): GameState => {
+    const { state: next } = reduce(state, action, 0);
+    assert.notEqual(next, state, `${action.type} from ${action.playerId} was rejected`);
+    return next;
+};
+
+// The dice the next roll of `state` will show
+const nextDice = (state: GameState) => [0, 1].map(i => Math.floor(randomAt(state.rngSeed, state.rngCounter + i) * 6) + 1);
+
+test('the turn moves on when its player goes bankrupt while someone else is raising funds', () => {
+    // Pick a seed whose first roll is not a double, so the turn would end after the card
+    let seed = 1;
+    let state = createInitialState([
+        { id: 'A', name: 'A', isAI: false, isHost: true },
+        { id: 'B', name: 'B', isAI: false, isHost: false },
+        { id: 'C', name: 'C', isAI: false, isHost: false }
+    ], 'test', undefined, undefined, seed);
+    while (new Set(nextDice(state)).size === 1) state = { ...state, rngSeed: ++seed };
+
+    // A rolls onto Community Chest and draws the birthday card; B has $5 and a tile to mortgage
+    const [d1, d2] = nextDice(state);
+    state = {
+        ...state,
+        decks: { ...state.decks, COMMUNITY_CHEST: [BIRTHDAY_CARD, ...state.decks.COMMUNITY_CHEST.filter(id => id !== BIRTHDAY_CARD)] },
+        players: state.players.map(p =>
+            p.id === 'A' ? { ...p, position: (COMMUNITY_CHEST_TILE - d1 - d2 + 40) % 40 }
+            : p.id === 'B' ? { ...p, money: 5, properties: [1] } : p),
+        tiles: state.tiles.map(t => t.id === 1 ? { ...t, ownerId: 'B' } : t)
+    };
+
+    state = apply(state, { type: 'ROLL', playerId: 'A' });
+    assert.equal(state.phase, GamePhase.RAISING_FUNDS);
+    assert.deepEqual(state.debts, [{ debtorId: 'B', creditorId: 'A', amount: 10, reason: 'CARD' }]);
+
+    // A gives up while B still owes; the debt now goes to the bank
+    state = apply(state, { type: 'SURRENDER', playerId: 'A' });
+    assert.equal(state.phase, GamePhase.RAISING_FUNDS);
+    assert.deepEqual(state.debts, [{ debtorId: 'B', creditorId: null, amount: 10, reason: 'CARD' }]);
+
+    state = apply(state, { type: 'MORTGAGE', playerId: 'B', payload: { tileId: 1 } });
+    state = apply(state, { type: 'PAY_DEBT', playerId: 'B' });
+
+    assert.equal(state.phase, GamePhase.ROLLING);
+    assert.equal(state.players[state.currentPlayerIndex].id, 'B');
+    apply(state, { type: 'ROLL', playerId: 'B' });
+});
@@ -0,0 +1,66 @@
+import { GameState, GamePhase, Player, GameLog, DebtReason } from '../types';
+import { createLog, adjustMoney, processEndTurn } from './helpers';
+
+// Payments that cannot be covered in cash become debts. While any debt is open
+// the game sits in RAISING_FUNDS so the debtor can sell, mortgage or trade.
+
+const creditorName = (state: GameState, creditorId: string | null) =>
+    creditorId ? state.players.find(p => p.id === creditorId)?.name ?? '?' : '银行';
+
+// Money paid to the bank goes into the Free Parking jackpot when that rule is on
+export const payBank = (state: GameState, amount: number): GameState =>
+    state.rules.freeParkingJackpot ? { ...state, freeParkingPot: state.freeParkingPot + amount } : state;
+
+// Pays `amount` from one player to another (or to the bank when creditorId is null).
+// If the payer cannot afford it, nothing moves and a debt is queued instead.
+export const chargePlayer = (state: GameState, payerId: string, amount: number, creditorId: string | null, reason: DebtReason, logs: GameLog[]): GameState => {
+    const payer = state.players.find(p => p.id === payerId);
+    if (!payer || amount <= 0) return state;
+
+    if (payer.money >= amount) {
+        const paid = adjustMoney(state, payerId, -amount);
+        return creditorId ? adjustMoney(paid, creditorId, amount) : payBank(paid, amount);
+    }
+
+    logs.push(createLog(`${payer.name} 现金不足，欠 ${creditorName(state, creditorId)} $${amount}，需要筹集资金！`, 'danger'));
+    return { ...state, debts: [...state.debts, { debtorId: payerId, creditorId, amount, reason }] };
+};
+
+// Called after every action: new debts pause the turn, remembering where it was headed
+export const enterRaisingFunds = (state: GameState): GameState => {
+    if (state.debts.length === 0 || state.phase === GamePhase.RAISING_FUNDS || state.phase === GamePhase.GAME_OVER) {
+        return state;
+    }
+    return {
+        ...state,
+        phase: GamePhase.RAISING_FUNDS,
+        debtResume: { phase: state.phase, waitingForDoublesTurn: state.waitingForDoublesTurn }
+    };
+};
+
+// Continues the interrupted turn once the queue is empty. If the player whose
+// turn it was went bankrupt meanwhile, the turn passes to the next player.
+export const resumeAfterDebts = (state: GameState): GameState => {
+    if (state.debts.length > 0 || state.phase !== GamePhase.RAISING_FUNDS) return state;
+    if (state.players[state.currentPlayerIndex].bankrupt) return processEndTurn({ ...state, debtResume: null });
+    const resume = state.debtResume ?? { phase: GamePhase.END_TURN, waitingForDoublesTurn: false };
+    return { ...state, phase: resume.phase, waitingForDoublesTurn: resume.waitingForDoublesTurn, debtResume: null };
+};
+
+export const processPayDebt = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const debt = state.debts[0];
+    if (!debt || debt.debtorId !== player.id) return state;
+
+    if (player.money < debt.amount) {
+        logs.push(createLog(`${player.name} 现金仍不足以偿还 $${debt.amount}。`, 'warning'));
+        return state;
+    }
+
+    logs.push(createLog(`${player.name} 向 ${creditorName(state, debt.creditorId)} 还清了 $${debt.amount}。`, 'success'));
+
+    let nextState = adjustMoney(state, player.id, -debt.amount);
+    nextState = debt.creditorId ? adjustMoney(nextState, debt.creditorId, debt.amount) : payBank(nextState, debt.amount);
+    nextState = { ...nextState, debts: nextState.debts.slice(1) };
+
+    return resumeAfterDebts(nextState);
+};
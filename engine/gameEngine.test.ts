@@ -0,0 +1,73 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { reduce, createInitialState } from './gameEngine';
+import { GameState, GamePhase, NetworkAction } from '../types';
+
+const PLAYERS = [
+    { id: 'A', name: 'A', isAI: false, isHost: true },
+    { id: 'B', name: 'B', isAI: false, isHost: false },
+    { id: 'C', name: 'C', isAI: false, isHost: false }
+];
+
+// A simple player for every seat: buys whatever it can, builds nothing, gives up when broke
+const scriptedAction = (state: GameState): NetworkAction => {
+    const debtor = state.debts[0]?.debtorId;
+    if (debtor) return { type: 'DECLARE_BANKRUPTCY', playerId: debtor };
+
+    const player = state.players[state.currentPlayerIndex];
+    const playerId = player.id;
+    switch (state.phase) {
+        case GamePhase.ACTION: return { type: player.money >= (state.tiles[player.position].price ?? 0) ? 'BUY' : 'PASS', playerId };
+        case GamePhase.END_TURN: return { type: 'END_TURN', playerId };
+        case GamePhase.AUCTION: return { type: 'CLOSE_AUCTION', playerId };
+        default: return { type: 'ROLL', playerId };
+    }
+};
+
+// Applies scripted actions one second apart, returning every state passed through
+const play = (start: GameState, steps: number) => {
+    const states = [start];
+    let state = start;
+    for (let i = 0; i < steps && state.phase !== GamePhase.GAME_OVER; i++) {
+        state = reduce(state, scriptedAction(state), (i + 1) * 1000).state;
+        states.push(state);
+    }
+    return states;
+};
+
+const deepFreeze = <T>(value: T): T => {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        Object.values(value).forEach(deepFreeze);
+    }
+    return value;
+};
+
+test('reduce never mutates the state it is given', () => {
+    let state = createInitialState(PLAYERS, 'test', undefined, undefined, 7, 0);
+    for (let i = 0; i < 300 && state.phase !== GamePhase.GAME_OVER; i++) {
+        const snapshot = structuredClone(state);
+        // Frozen input: any write to it throws in strict mode
+        const next = reduce(deepFreeze(state), scriptedAction(state), (i + 1) * 1000).state;
+        assert.deepEqual(state, snapshot);
+        assert.notEqual(next, state, `step ${i} was rejected`);
+        state = next;
+    }
+});
+
+test('the same seed and the same actions give the same game', () => {
+    const first = play(createInitialState(PLAYERS, 'test', undefined, undefined, 42, 0), 300);
+    const second = play(createInitialState(PLAYERS, 'test', undefined, undefined, 42, 0), 300);
+    assert.deepEqual(second, first);
+
+    // The dice really come from the seed
+    const other = play(createInitialState(PLAYERS, 'test', undefined, undefined, 43, 0), 300);
+    assert.notDeepEqual(other.map(s => s.dice), first.map(s => s.dice));
+});
+
+test('paying bail outside of jail is ignored', () => {
+    const state = createInitialState(PLAYERS, 'test', undefined, undefined, 7, 0);
+    const result = reduce(state, { type: 'PAY_BAIL', playerId: 'A' }, 1000);
+    assert.equal(result.state, state);
+    assert.deepEqual(result.events, []);
+});
@@ -0,0 +1,699 @@
+import { GameState, Player, GamePhase, TileType, GameLog, ChanceCard, NetworkAction, ActionType, Room, RuleSet, BoardDefinition } from '../types';
+import { DEFAULT_BOARD, DEFAULT_RULES, HOUSE_SHORTAGE_LIMIT } from '../constants';
+import {
+    Rng, createLog, stampLogs, updatePlayer, adjustMoney, updateTile, checkOwnsGroup,
+    getMortgageValue, getUnmortgageCost, groupHasBuildings, getBuildError, getSellError, getHouseSaleValue,
+    setBuildingLevel, countBuildings, calculateRent, processEndTurn
+} from './helpers';
+import {
+    processProposeTrade, processAcceptTrade, processRejectTrade, processCounterTrade, processCancelTrade, clearTradesFor
+} from './trade';
+import { startAuction, startHouseAuction, processBid, processDropOut, processCloseAuction, removeFromAuction } from './auction';
+import { createDecks, drawCard, sendsToJail, returnJailCards } from './cards';
+import { chargePlayer, payBank, enterRaisingFunds, resumeAfterDebts, processPayDebt } from './debt';
+import { sanitizeRules } from './rules';
+import { createSeed, createSeededRng } from './random';
+
+// Pure rules engine: no React, no sockets. Every processor takes the previous
+// state and returns a new one, collecting human-readable events into `logs`.
+
+export interface EngineResult {
+  state: GameState;
+  events: GameLog[];
+}
+
+// Phases in which each action is legal. Actions not listed are allowed in any
+// phase except GAME_OVER.
+const ALLOWED_PHASES: Partial<Record<ActionType, GamePhase[]>> = {
+    ROLL: [GamePhase.ROLLING],
+    PAY_BAIL: [GamePhase.ROLLING],
+    USE_JAIL_CARD: [GamePhase.ROLLING],
+    BUY: [GamePhase.ACTION],
+    PASS: [GamePhase.ACTION],
+    END_TURN: [GamePhase.END_TURN],
+    UPGRADE: [GamePhase.ROLLING, GamePhase.ACTION, GamePhase.END_TURN],
+    BID: [GamePhase.AUCTION],
+    DROP_OUT: [GamePhase.AUCTION],
+    CLOSE_AUCTION: [GamePhase.AUCTION],
+    PAY_DEBT: [GamePhase.RAISING_FUNDS],
+    DECLARE_BANKRUPTCY: [GamePhase.RAISING_FUNDS]
+};
+
+// Actions a player may take while it is someone else's turn
+const OFF_TURN_ACTIONS: ActionType[] = [
+    'SURRENDER', 'MORTGAGE', 'UNMORTGAGE', 'SELL_HOUSE',
+    'PROPOSE_TRADE', 'ACCEPT_TRADE', 'REJECT_TRADE', 'COUNTER_TRADE', 'CANCEL_TRADE',
+    'BID', 'DROP_OUT', 'CLOSE_AUCTION',
+    'PAY_DEBT', 'DECLARE_BANKRUPTCY'
+];
+
+// `now` only stamps the opening log; pass the same value to get identical states
+export const createInitialState = (roomPlayers: Room['players'], roomId: string, rules: RuleSet = DEFAULT_RULES, board: BoardDefinition = DEFAULT_BOARD, seed: number = createSeed(), now: number = Date.now()): GameState => {
+    const { tiles, ...boardInfo } = board;
+    const gameRules = sanitizeRules(rules);
+    const random = createSeededRng(seed, 0);
+    const colors = ['#3b82f6', '#ef4444', '#eab308', '#22c55e', '#a855f7', '#f97316', '#14b8a6', '#ec4899'];
+    const icons = ['🚗', '✈️', '🚢', '🚀', '🚲', '🚂', '🛵', '🚁'];
+
+    const players: Player[] = roomPlayers.map((p, i) => ({
+        id: p.id,
+        name: p.name,
+        color: colors[i % colors.length],
+        icon: p.isAI ? '🤖' : icons[i % icons.length],
+        isAI: p.isAI,
+        money: gameRules.startingMoney,
+        position: 0,
+        isInJail: false,
+        jailTurns: 0,
+        consecutiveDoubles: 0,
+        properties: [],
+        bankrupt: false,
+        getOutOfJailCards: 0,
+        ...(p.isAI && p.aiProfile ? { aiProfile: p.aiProfile } : {})
+    }));
+
+    return {
+        players,
+        currentPlayerIndex: 0,
+        board: boardInfo,
+        tiles: tiles.map(t => ({ ...t, ownerId: null, houseCount: 0, isMortgaged: false })),
+        dice: [1, 1],
+        phase: GamePhase.ROLLING,
+        logs: [{ id: 'init', message: "游戏开始！祝你好运。", type: 'info', timestamp: now }],
+        winner: null,
+        currentCard: null,
+        decks: createDecks(board.decks, random.rng),
+        heldJailCards: [],
+        selectedTileId: null,
+        waitingForDoublesTurn: false,
+        pendingTrade: null,
+        rules: gameRules,
+        freeParkingPot: 0,
+        auction: null,
+        houseSupply: gameRules.houseSupply,
+        hotelSupply: gameRules.hotelSupply,
+        debts: [],
+        debtResume: null,
+        rngSeed: seed,
+        rngCounter: random.counter(),
+        journal: [],
+        currentUser: null, // Filled in by each client
+        roomId,
+        isHost: false
+    };
+};
+
+// Hands a seat to the built-in AI when its player drops out, and back when they return.
+// Who controls a seat does not change the rules, so this is not a journaled action.
+export const setAIControl = (state: GameState, playerId: string, isAI: boolean, now: number = Date.now()): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player || player.isAI === isAI) return state;
+
+    const log = isAI
+        ? createLog(`${player.name} 掉线，由电脑接管。`, 'warning')
+        : createLog(`${player.name} 已重新连接，收回座位。`, 'success');
+    return { ...updatePlayer(state, playerId, { isAI }), logs: [...state.logs, { ...log, id: `control-${playerId}-${now}`, timestamp: now }] };
+};
+
+// `now` drives auction timers; replays pass the time recorded in the journal
+export const reduce = (state: GameState, action: NetworkAction, now: number = Date.now()): EngineResult => {
+    // 1. Validate turn (unless off-turn action) and phase
+    const player = state.players.find(p => p.id === action.playerId);
+    if (!player || player.bankrupt) return { state, events: [] };
+    if (state.phase === GamePhase.GAME_OVER) return { state, events: [] };
+
+    const isTurn = state.players[state.currentPlayerIndex].id === player.id;
+    if (!isTurn && !OFF_TURN_ACTIONS.includes(action.type)) return { state, events: [] };
+
+    // Own keys only: a type like "constructor" must not pick up Object.prototype members
+    const allowedPhases = Object.hasOwn(ALLOWED_PHASES, action.type) ? ALLOWED_PHASES[action.type] : undefined;
+    if (allowedPhases && !allowedPhases.includes(state.phase)) return { state, events: [] };
+
+    // 2. Process Action
+    const logs: GameLog[] = [];
+    const random = createSeededRng(state.rngSeed, state.rngCounter);
+    const draws: number[] = [];
+    const rng: Rng = () => {
+        const value = random.rng();
+        draws.push(value);
+        return value;
+    };
+    let newState = state;
+
+    switch (action.type) {
+        case 'ROLL':
+            newState = processRoll(newState, player, logs, rng);
+            break;
+        case 'BUY':
+            newState = processBuy(newState, player, logs);
+            break;
+        case 'PASS':
+            newState = processPass(newState, player, logs, now);
+            break;
+        case 'PAY_BAIL':
+            newState = processPayBail(newState, player, logs);
+            break;
+        case 'USE_JAIL_CARD':
+            newState = processUseJailCard(newState, player, logs);
+            break;
+        case 'UPGRADE':
+            newState = processUpgrade(newState, player, action.payload?.tileId, logs, now);
+            break;
+        case 'SELL_HOUSE':
+            newState = processSellHouse(newState, player, action.payload?.tileId, logs);
+            break;
+        case 'END_TURN':
+            newState = processEndTurn(newState);
+            break;
+        case 'SURRENDER':
+            newState = processSurrender(newState, player, logs);
+            break;
+        case 'MORTGAGE':
+            newState = processMortgage(newState, player, action.payload?.tileId, logs);
+            break;
+        case 'UNMORTGAGE':
+            newState = processUnmortgage(newState, player, action.payload?.tileId, logs);
+            break;
+        case 'PROPOSE_TRADE':
+            newState = processProposeTrade(newState, player, action.payload, logs);
+            break;
+        case 'ACCEPT_TRADE':
+            newState = processAcceptTrade(newState, player, logs);
+            break;
+        case 'REJECT_TRADE':
+            newState = processRejectTrade(newState, player, logs);
+            break;
+        case 'COUNTER_TRADE':
+            newState = processCounterTrade(newState, player, action.payload, logs);
+            break;
+        case 'CANCEL_TRADE':
+            newState = processCancelTrade(newState, player, logs);
+            break;
+        case 'BID':
+            newState = processBid(newState, player, action.payload?.amount, logs, now);
+            break;
+        case 'DROP_OUT':
+            newState = processDropOut(newState, player, logs);
+            break;
+        case 'CLOSE_AUCTION':
+            newState = processCloseAuction(newState, logs, now);
+            break;
+        case 'PAY_DEBT':
+            newState = processPayDebt(newState, player, logs);
+            break;
+        case 'DECLARE_BANKRUPTCY':
+            newState = processDeclareBankruptcy(newState, player, logs);
+            break;
+    }
+
+    // Unpaid charges pause the turn until the debtor settles up
+    newState = enterRaisingFunds(newState);
+
+    if (random.counter() !== state.rngCounter) newState = { ...newState, rngCounter: random.counter() };
+
+    if (newState === state && logs.length === 0) return { state, events: [] };
+    const events = stampLogs(logs, state.journal.length, now);
+    return {
+        state: {
+            ...newState,
+            logs: [...state.logs, ...events],
+            journal: [...state.journal, { action, at: now, draws }]
+        },
+        events
+    };
+};
+
+// --- LOGIC PROCESSORS ---
+
+// Takes a player out of the game. Their buildings are sold back to the bank and
+// everything else goes to the creditor, or back to the bank if nobody is owed.
+const bankruptPlayer = (state: GameState, playerId: string, creditorId: string | null, logs: GameLog[]): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+
+    const isTurn = state.players[state.currentPlayerIndex].id === playerId;
+    const creditor = state.players.find(p => p.id === creditorId && p.id !== playerId && !p.bankrupt);
+    const ownedTiles = state.tiles.filter(t => t.ownerId === playerId);
+
+    // Buildings go back to the bank at half price before anything changes hands
+    const buildingRefund = ownedTiles.reduce((sum, t) => sum + (t.houseCount || 0) * getHouseSaleValue(t), 0);
+    const cash = Math.max(0, player.money + buildingRefund);
+    const returned = countBuildings(ownedTiles);
+    const stocked: GameState = {
+        ...state,
+        houseSupply: state.houseSupply + returned.houses,
+        hotelSupply: state.hotelSupply + returned.hotels
+    };
+
+    let nextState: GameState;
+    if (creditor) {
+        logs.push(createLog(`${player.name} 的全部资产 ($${cash} 现金及 ${ownedTiles.length} 处地产) 转交给 ${creditor.name}。`, 'warning'));
+        nextState = updatePlayer(stocked, creditor.id, {
+            money: creditor.money + cash,
+            properties: [...creditor.properties, ...ownedTiles.map(t => t.id)],
+            getOutOfJailCards: creditor.getOutOfJailCards + player.getOutOfJailCards
+        });
+        nextState = {
+            ...nextState,
+            tiles: nextState.tiles.map(t => t.ownerId === playerId ? { ...t, ownerId: creditor.id, houseCount: 0 } : t)
+        };
+    } else {
+        logs.push(createLog(`${player.name} 的地产全部归还银行。`, 'warning'));
+        nextState = {
+            ...returnJailCards(stocked, player.getOutOfJailCards),
+            tiles: stocked.tiles.map(t => t.ownerId === playerId ? { ...t, ownerId: null, houseCount: 0, isMortgaged: false } : t)
+        };
+    }
+
+    nextState = updatePlayer(nextState, playerId, { bankrupt: true, money: 0, properties: [], getOutOfJailCards: 0 });
+    // Their other debts die with them; debts owed to them are now owed to the bank
+    nextState = {
+        ...nextState,
+        debts: nextState.debts
+            .filter(d => d.debtorId !== playerId)
+            .map(d => d.creditorId === playerId ? { ...d, creditorId: null } : d)
+    };
+    nextState = clearTradesFor(nextState, playerId);
+
+    if (isTurn && nextState.auction) {
+        // The turn cannot resume without its player, so the lot goes back to the bank
+        logs.push(createLog("拍卖取消。"));
+        nextState = { ...nextState, auction: null };
+    } else {
+        nextState = removeFromAuction(nextState, playerId, logs);
+    }
+
+    const activePlayers = nextState.players.filter(p => !p.bankrupt);
+    if (activePlayers.length <= 1) {
+        return { ...nextState, winner: activePlayers[0] || null, phase: GamePhase.GAME_OVER, debts: [], debtResume: null };
+    }
+
+    if (nextState.debts.length > 0) return nextState;
+    if (isTurn) return processEndTurn({ ...nextState, debtResume: null });
+    return resumeAfterDebts(nextState);
+};
+
+const processSurrender = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    // Surrendering while in debt still pays out to whoever is owed
+    const debt = state.debts[0]?.debtorId === player.id ? state.debts[0] : null;
+
+    logs.push(createLog(`${player.name} 选择了认输，宣告破产！`, 'danger', { kind: 'BANKRUPTCY', playerId: player.id, debt }));
+    return bankruptPlayer(state, player.id, debt ? debt.creditorId : null, logs);
+};
+
+const processDeclareBankruptcy = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const debt = state.debts[0];
+    if (!debt || debt.debtorId !== player.id) return state;
+
+    logs.push(createLog(`${player.name} 无力偿还 $${debt.amount}，宣告破产！`, 'danger', { kind: 'BANKRUPTCY', playerId: player.id, debt }));
+    return bankruptPlayer(state, player.id, debt.creditorId, logs);
+};
+
+const processPayBail = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    if (!player.isInJail) return state;
+
+    const bail = state.rules.bailAmount;
+    if (player.money < bail) {
+        logs.push(createLog(`${player.name} 资金不足，无法支付保释金。`, 'warning'));
+        return state;
+    }
+
+    logs.push(createLog(`${player.name} 支付了 $${bail} 保释金，重获自由！`, 'success'));
+    return updatePlayer(payBank(state, bail), player.id, {
+        money: player.money - bail,
+        isInJail: false,
+        jailTurns: 0,
+        consecutiveDoubles: 0
+    });
+};
+
+const processUseJailCard = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    if (!player.isInJail || player.getOutOfJailCards < 1) return state;
+
+    logs.push(createLog(`${player.name} 使用了出狱许可卡，重获自由！`, 'success'));
+    return updatePlayer(returnJailCards(state, 1), player.id, {
+        getOutOfJailCards: player.getOutOfJailCards - 1,
+        isInJail: false,
+        jailTurns: 0,
+        consecutiveDoubles: 0
+    });
+};
+
+const processUpgrade = (state: GameState, player: Player, tileId: number | undefined, logs: GameLog[], now: number): GameState => {
+    if (tileId === undefined || tileId === null) return state;
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile || !tile.houseCost) return state;
+
+    const buildError = getBuildError(state, tile, player.id);
+    if (buildError) {
+        logs.push(createLog(buildError, 'warning'));
+        return state;
+    }
+    if (player.money < tile.houseCost) {
+        logs.push(createLog("资金不足，无法升级！", 'warning'));
+        return state;
+    }
+
+    const houseCount = (tile.houseCount || 0) + 1;
+
+    // When houses are scarce, anyone else who could build one gets to bid for it
+    if (houseCount < 5 && state.houseSupply <= HOUSE_SHORTAGE_LIMIT) {
+        const rivals = findHouseBuilders(state, player.id);
+        if (Object.keys(rivals).length > 0) {
+            return startHouseAuction(state, player.id, { [player.id]: tile.id, ...rivals }, logs, now);
+        }
+    }
+
+    let nextState = updatePlayer(state, player.id, { money: player.money - tile.houseCost });
+    nextState = setBuildingLevel(nextState, tile.id, houseCount);
+
+    const levelName = houseCount === 5 ? "酒店" : `${houseCount} 栋房屋`;
+    logs.push(createLog(`${player.name} 升级了 ${tile.name} 为 ${levelName} (-$${tile.houseCost})`, 'success'));
+
+    return nextState;
+};
+
+// Other players who could afford to build a house right now, with the tile
+// each would build on (their most expensive eligible one)
+const findHouseBuilders = (state: GameState, excludeId: string): Record<string, number> => {
+    const builders: Record<string, number> = {};
+    state.players.filter(p => p.id !== excludeId && !p.bankrupt).forEach(p => {
+        const target = state.tiles
+            .filter(t => (t.houseCount || 0) < 4 && p.money >= (t.houseCost || 0) && getBuildError(state, t, p.id) === null)
+            .sort((a, b) => (b.houseCost || 0) - (a.houseCost || 0))[0];
+        if (target) builders[p.id] = target.id;
+    });
+    return builders;
+};
+
+// Buildings are sold back to the bank for half their cost, one level at a time
+const processSellHouse = (state: GameState, player: Player, tileId: number | undefined, logs: GameLog[]): GameState => {
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile) return state;
+
+    const sellError = getSellError(state, tile, player.id);
+    if (sellError) {
+        logs.push(createLog(sellError, 'warning'));
+        return state;
+    }
+
+    const refund = getHouseSaleValue(tile);
+    const houseCount = (tile.houseCount || 0) - 1;
+    let nextState = adjustMoney(state, player.id, refund);
+    nextState = setBuildingLevel(nextState, tile.id, houseCount);
+
+    const levelName = houseCount === 0 ? "空地" : `${houseCount} 栋房屋`;
+    logs.push(createLog(`${player.name} 出售了 ${tile.name} 的建筑，降为 ${levelName} (+$${refund})`, 'info'));
+
+    return nextState;
+};
+
+const processMortgage = (state: GameState, player: Player, tileId: number | undefined, logs: GameLog[]): GameState => {
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile || tile.ownerId !== player.id || !tile.price || tile.isMortgaged) return state;
+
+    if (groupHasBuildings(tile.group, state.tiles)) {
+        logs.push(createLog(`${tile.name} 所在街区还有房屋，需先出售房屋才能抵押。`, 'warning'));
+        return state;
+    }
+
+    const value = getMortgageValue(tile);
+    logs.push(createLog(`${player.name} 抵押了 ${tile.name}，获得 $${value}。`, 'warning'));
+
+    const nextState = updatePlayer(state, player.id, { money: player.money + value });
+    return updateTile(nextState, tile.id, { isMortgaged: true });
+};
+
+const processUnmortgage = (state: GameState, player: Player, tileId: number | undefined, logs: GameLog[]): GameState => {
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile || tile.ownerId !== player.id || !tile.isMortgaged) return state;
+
+    const cost = getUnmortgageCost(tile);
+    if (player.money < cost) {
+        logs.push(createLog(`${player.name} 资金不足，无法赎回 ${tile.name} (需要 $${cost})。`, 'warning'));
+        return state;
+    }
+
+    logs.push(createLog(`${player.name} 支付 $${cost} (含利息) 赎回了 ${tile.name}。`, 'success'));
+
+    const nextState = updatePlayer(state, player.id, { money: player.money - cost });
+    return updateTile(nextState, tile.id, { isMortgaged: false });
+};
+
+const processPass = (state: GameState, player: Player, logs: GameLog[], now: number): GameState => {
+    logs.push(createLog(`${player.name} 决定不购买。`));
+
+    const tile = state.tiles[player.position];
+    const isBuyable = tile.type === TileType.PROPERTY || tile.type === TileType.STATION || tile.type === TileType.UTILITY;
+    if (state.rules.auctionsEnabled && isBuyable && !tile.ownerId) {
+        return startAuction(state, tile.id, logs, now);
+    }
+
+    return {
+        ...state,
+        phase: state.waitingForDoublesTurn ? GamePhase.ROLLING : GamePhase.END_TURN
+    };
+};
+
+const processBuy = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const tile = state.tiles[player.position];
+    if (!tile.price || player.money < tile.price) return state;
+
+    let nextState = updatePlayer(state, player.id, {
+        money: player.money - tile.price,
+        properties: [...player.properties, tile.id]
+    });
+    nextState = updateTile(nextState, tile.id, { ownerId: player.id });
+
+    logs.push(createLog(`${player.name} 花费 $${tile.price} 购买了 ${tile.name}。`, 'success'));
+
+    return {
+        ...nextState,
+        phase: state.waitingForDoublesTurn ? GamePhase.ROLLING : GamePhase.END_TURN
+    };
+};
+
+const sendToJail = (state: GameState, playerId: string): GameState =>
+    updatePlayer(state, playerId, { position: state.board.jailIndex, isInJail: true, jailTurns: 0, consecutiveDoubles: 0 });
+
+const processRoll = (state: GameState, player: Player, logs: GameLog[], rng: Rng): GameState => {
+    const d1 = Math.floor(rng() * 6) + 1;
+    const d2 = Math.floor(rng() * 6) + 1;
+    const total = d1 + d2;
+    const isDouble = d1 === d2;
+
+    const newState: GameState = { ...state, dice: [d1, d2], waitingForDoublesTurn: false };
+
+    // Jail Logic
+    if (player.isInJail) {
+        if (isDouble) {
+            logs.push(createLog(`${player.name} 掷出了双倍 (${d1}, ${d2})，成功越狱！`, 'success'));
+            const freed = updatePlayer(newState, player.id, { isInJail: false, jailTurns: 0, consecutiveDoubles: 0 });
+            return movePlayer(freed, total, player.id, false, logs, rng);
+        }
+        // jailTurns counts failed attempts, so this is the last allowed turn inside
+        if (player.jailTurns >= state.rules.maxJailTurns - 1) {
+            const bail = state.rules.bailAmount;
+            logs.push(createLog(`${player.name} 狱期已满，强制支付 $${bail} 保释金出狱。`, 'warning'));
+            const freed = updatePlayer(newState, player.id, { isInJail: false, jailTurns: 0, consecutiveDoubles: 0 });
+            return movePlayer(chargePlayer(freed, player.id, bail, null, 'BAIL', logs), total, player.id, false, logs, rng);
+        }
+        logs.push(createLog(`${player.name} 掷出 ${total}，越狱失败。`, 'warning'));
+        return {
+            ...updatePlayer(newState, player.id, { jailTurns: player.jailTurns + 1, consecutiveDoubles: 0 }),
+            phase: GamePhase.END_TURN
+        };
+    }
+
+    // Normal Logic
+    const nextDoublesCount = isDouble ? player.consecutiveDoubles + 1 : 0;
+
+    if (nextDoublesCount >= state.rules.doublesLimit) {
+        logs.push(createLog(`${player.name} 连续 ${nextDoublesCount} 次掷出双倍，因超速被送进监狱！`, 'danger'));
+        return { ...sendToJail(newState, player.id), phase: GamePhase.END_TURN };
+    }
+
+    logs.push(createLog(`${player.name} 掷出了 ${total} (${d1} + ${d2})${isDouble ? ' - 双倍!' : ''}`));
+
+    const counted = updatePlayer(newState, player.id, { consecutiveDoubles: nextDoublesCount });
+    return movePlayer(counted, total, player.id, isDouble, logs, rng);
+};
+
+// Puts a player on a tile, paying the START salary if they passed or landed on it
+const placePlayer = (state: GameState, playerId: string, position: number, passedStart: boolean, logs: GameLog[]): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+    if (!passedStart) return updatePlayer(state, playerId, { position });
+
+    const exact = position === 0 && state.rules.doubleSalaryOnGo;
+    const salary = state.rules.goSalary * (exact ? 2 : 1);
+    logs.push(createLog(exact
+        ? `${player.name} 正好停在起点，获得双倍奖励 $${salary}！`
+        : `${player.name} 经过起点，获得 $${salary} 奖励。`, 'success'));
+
+    return updatePlayer(state, playerId, { position, money: player.money + salary });
+};
+
+const movePlayer = (state: GameState, steps: number, playerId: string, isDouble: boolean, logs: GameLog[], rng: Rng): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+
+    const size = state.board.size;
+    let newPos = player.position + steps;
+    const passedStart = newPos >= size;
+    if (newPos >= size) newPos -= size;
+    else if (newPos < 0) newPos += size;
+
+    const moved = placePlayer(state, playerId, newPos, passedStart, logs);
+
+    // Handle Landing (Sync)
+    return handleLanding(moved, playerId, isDouble, logs, rng);
+};
+
+// boostedRent applies the "advance to nearest" card penalty: double station rent, or ten times the dice for a utility
+const handleLanding = (state: GameState, playerId: string, isDouble: boolean, logs: GameLog[], rng: Rng, boostedRent = false): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+
+    const tile = state.tiles[player.position];
+    logs.push(createLog(`${player.name} 到达了 ${tile.name}。`, 'info', { kind: 'LANDING', playerId, tileId: tile.id }));
+
+    // 1. Go to Jail
+    if (tile.type === TileType.GO_TO_JAIL) {
+        logs.push(createLog(`${player.name} 触犯法律，被直接送进监狱！`, 'danger'));
+        return { ...sendToJail(state, playerId), phase: GamePhase.END_TURN, waitingForDoublesTurn: false };
+    }
+
+    // 2. Chance / Community Chest
+    if (tile.type === TileType.CHANCE || tile.type === TileType.COMMUNITY_CHEST) {
+        const deck = tile.type === TileType.CHANCE ? 'CHANCE' : 'COMMUNITY_CHEST';
+        const drawn = drawCard(state, deck, logs, rng);
+
+        if (drawn.card) {
+            const nextState = { ...drawn.state, currentCard: drawn.card, phase: GamePhase.SHOWING_CARD };
+            return applyChanceEffect(nextState, playerId, drawn.card, isDouble, logs, rng);
+        }
+    }
+
+    // 3. Properties
+    if (tile.type === TileType.PROPERTY || tile.type === TileType.STATION || tile.type === TileType.UTILITY) {
+        if (tile.ownerId && tile.ownerId !== playerId && tile.isMortgaged) {
+            logs.push(createLog(`${tile.name} 已被抵押，无需支付租金。`));
+        } else if (tile.ownerId && tile.ownerId !== playerId) {
+            // Pay Rent
+            const owner = state.players.find(p => p.id === tile.ownerId);
+            if (owner && owner.isInJail && state.rules.noRentInJail) {
+                logs.push(createLog(`${owner.name} 正在狱中，无法收取租金。`));
+            } else if (owner && !owner.bankrupt) {
+                const diceSum = state.dice[0] + state.dice[1];
+                const rent = calculateRent(state, tile, diceSum, boostedRent);
+                if (tile.type === TileType.PROPERTY && !tile.houseCount && checkOwnsGroup(owner.id, tile.group, state.tiles)) {
+                    logs.push(createLog(`租金翻倍！${owner.name} 拥有完整的 ${tile.group} 街区。`, 'warning'));
+                } else if (tile.type === TileType.UTILITY) {
+                    logs.push(createLog(`公用事业费用计算: 点数 ${diceSum} x ${rent / diceSum}`, 'info'));
+                }
+
+                logs.push(createLog(`${player.name} 向 ${owner.name} 支付租金 $${rent}。`, 'danger',
+                    { kind: 'RENT', payerId: playerId, ownerId: owner.id, tileId: tile.id, amount: rent }));
+
+                const paid = chargePlayer(state, playerId, rent, owner.id, 'RENT', logs);
+                return { ...paid, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
+            }
+        } else if (!tile.ownerId) {
+            return { ...state, phase: GamePhase.ACTION, waitingForDoublesTurn: isDouble };
+        }
+    }
+
+    // 4. Free Parking jackpot
+    if (tile.type === TileType.PARKING && state.rules.freeParkingJackpot && state.freeParkingPot > 0) {
+        logs.push(createLog(`${player.name} 赢得免费停车奖池 $${state.freeParkingPot}！`, 'success'));
+        const won = adjustMoney({ ...state, freeParkingPot: 0 }, playerId, state.freeParkingPot);
+        return { ...won, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
+    }
+
+    // 5. Tax
+    if (tile.type === TileType.TAX) {
+        const tax = tile.price || 100;
+        logs.push(createLog(`${player.name} 缴纳了 $${tax} 税款。`, 'danger'));
+        return { ...chargePlayer(state, playerId, tax, null, 'TAX', logs), phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
+    }
+
+    return { ...state, phase: isDouble ? GamePhase.ROLLING : GamePhase.END_TURN, waitingForDoublesTurn: isDouble };
+};
+
+const applyChanceEffect = (state: GameState, playerId: string, card: ChanceCard, isDouble: boolean, logs: GameLog[], rng: Rng): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+
+    let nextPhase = isDouble ? GamePhase.ROLLING : GamePhase.END_TURN;
+    let waitingForDoubles = isDouble;
+    let nextState = state;
+    const others = state.players.filter(p => p.id !== playerId && !p.bankrupt);
+
+    logs.push(createLog(`${player.name} 执行: ${card.title}`, 'info'));
+
+    switch (card.effectType) {
+        case 'MONEY':
+            nextState = card.value >= 0
+                ? adjustMoney(state, playerId, card.value)
+                : chargePlayer(state, playerId, -card.value, null, 'CARD', logs);
+            break;
+        case 'MOVE_TO': {
+            if (sendsToJail(card, state.board.jailIndex)) {
+                nextState = sendToJail(state, playerId);
+                logs.push(createLog(`${player.name} 被送进监狱！`, 'danger'));
+                nextPhase = GamePhase.END_TURN;
+                waitingForDoubles = false;
+                break;
+            }
+            nextState = placePlayer(state, playerId, card.value, player.position > card.value, logs);
+            // The destination is resolved like any other landing
+            return handleLanding(nextState, playerId, isDouble, logs, rng);
+        }
+        case 'MOVE_STEPS': {
+            const size = state.board.size;
+            let newPos = player.position + card.value;
+            const passedStart = newPos >= size;
+            if (newPos >= size) newPos -= size;
+            if (newPos < 0) newPos += size;
+            nextState = placePlayer(state, playerId, newPos, passedStart, logs);
+            return handleLanding(nextState, playerId, isDouble, logs, rng);
+        }
+        case 'MOVE_TO_NEAREST': {
+            const target = state.tiles.find(t => t.id > player.position && t.type === card.nearest)
+                ?? state.tiles.find(t => t.type === card.nearest);
+            if (!target) break;
+            nextState = placePlayer(state, playerId, target.id, player.position > target.id, logs);
+            return handleLanding(nextState, playerId, isDouble, logs, rng, true);
+        }
+        case 'GO_TO_JAIL':
+            nextState = sendToJail(state, playerId);
+            logs.push(createLog(`${player.name} 被送进监狱！`, 'danger'));
+            nextPhase = GamePhase.END_TURN;
+            waitingForDoubles = false;
+            break;
+        case 'JAIL_CARD':
+            nextState = updatePlayer(state, playerId, { getOutOfJailCards: player.getOutOfJailCards + 1 });
+            logs.push(createLog(`${player.name} 获得一张出狱许可卡。`, 'success'));
+            break;
+        case 'REPAIRS': {
+            const { houses, hotels } = countBuildings(state.tiles.filter(t => t.ownerId === playerId));
+            const cost = houses * card.value + hotels * (card.hotelValue || 0);
+            logs.push(createLog(`${player.name} 拥有 ${houses} 栋房屋和 ${hotels} 家酒店，需支付维修费 $${cost}。`, cost > 0 ? 'danger' : 'info'));
+            nextState = chargePlayer(state, playerId, cost, null, 'CARD', logs);
+            break;
+        }
+        case 'PAY_EACH_PLAYER':
+            nextState = others.reduce((s, other) => chargePlayer(s, playerId, card.value, other.id, 'CARD', logs), state);
+            break;
+        case 'COLLECT_FROM_EACH_PLAYER':
+            nextState = others.reduce((s, other) => chargePlayer(s, other.id, card.value, playerId, 'CARD', logs), state);
+            break;
+    }
+
+    return {
+        ...nextState,
+        phase: nextPhase,
+        waitingForDoublesTurn: waitingForDoubles
+    };
+};
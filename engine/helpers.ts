@@ -0,0 +1,158 @@
+import { GameState, GamePhase, Player, Tile, GameLog, LogDetail, ColorGroup, TileType } from '../types';
+import { MORTGAGE_INTEREST_RATE } from '../constants';
+
+// Source of randomness for the engine. reduce() builds one from the seed stored
+// in GameState (see random.ts), so every client draws the same numbers.
+export type Rng = () => number;
+
+// Helper for IDs without external deps. Only for the app (player ids and the
+// like): the engine derives its ids from the journal so replays match.
+export const generateId = () => {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+};
+
+// The id and timestamp are filled in by stampLogs once the action is applied
+export const createLog = (message: string, type: GameLog['type'] = 'info', detail?: LogDetail): GameLog => ({
+    id: '',
+    message,
+    type,
+    timestamp: 0,
+    ...(detail ? { detail } : {})
+});
+
+// Gives the logs of one action ids built from its position in the journal and the time it was applied
+export const stampLogs = (logs: GameLog[], journalIndex: number, now: number): GameLog[] =>
+    logs.map((log, i) => ({ ...log, id: `${journalIndex}-${i}`, timestamp: now }));
+
+// Returns a new state where the given player is replaced by a patched copy.
+// Never mutates the player objects shared with the previous state.
+export const updatePlayer = (state: GameState, playerId: string, patch: Partial<Player>): GameState => ({
+    ...state,
+    players: state.players.map(p => p.id === playerId ? { ...p, ...patch } : p)
+});
+
+// Hands the turn to the next player still in the game, or ends the game if only one is left
+export const processEndTurn = (state: GameState): GameState => {
+    let nextIndex = (state.currentPlayerIndex + 1) % state.players.length;
+    let loopCount = 0;
+    // Skip bankrupt players
+    while (state.players[nextIndex].bankrupt && loopCount < state.players.length) {
+        nextIndex = (nextIndex + 1) % state.players.length;
+        loopCount++;
+    }
+
+    const activePlayers = state.players.filter(p => !p.bankrupt);
+    if (activePlayers.length <= 1) {
+        return { ...state, winner: activePlayers[0] || null, phase: GamePhase.GAME_OVER };
+    }
+
+    return {
+        ...state,
+        currentPlayerIndex: nextIndex,
+        phase: GamePhase.ROLLING,
+        waitingForDoublesTurn: false
+    };
+};
+
+export const adjustMoney = (state: GameState, playerId: string, delta: number): GameState => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) return state;
+    return updatePlayer(state, playerId, { money: player.money + delta });
+};
+
+export const updateTile = (state: GameState, tileId: number, patch: Partial<Tile>): GameState => ({
+    ...state,
+    tiles: state.tiles.map(t => t.id === tileId ? { ...t, ...patch } : t)
+});
+
+export const getMortgageValue = (tile: Tile) => Math.floor((tile.price || 0) / 2);
+
+export const getUnmortgageCost = (tile: Tile) => Math.ceil(getMortgageValue(tile) * (1 + MORTGAGE_INTEREST_RATE));
+
+// Buildings anywhere in the group block mortgaging (houses must be sold first)
+export const groupHasBuildings = (group: ColorGroup, allTiles: Tile[]) =>
+    group !== ColorGroup.NONE && allTiles.some(t => t.group === group && (t.houseCount || 0) > 0);
+
+export const checkOwnsGroup = (playerId: string | undefined | null, group: ColorGroup, allTiles: Tile[]) => {
+    if (!playerId || group === ColorGroup.NONE) return false;
+    const groupTiles = allTiles.filter(t => t.group === group);
+    return groupTiles.length > 0 && groupTiles.every(t => t.ownerId === playerId);
+};
+
+export const getHouseSaleValue = (tile: Tile) => Math.floor((tile.houseCost || 0) / 2);
+
+// Rent the owner of a tile charges, given the dice that brought the player there.
+// boostedRent is the "advance to nearest" card penalty: double station rent, or ten times the dice for a utility.
+// Mortgages and the no-rent-in-jail rule are left to the caller.
+export const calculateRent = (state: GameState, tile: Tile, diceSum: number, boostedRent = false): number => {
+    const ownerId = tile.ownerId;
+    if (!ownerId) return 0;
+
+    if (tile.type === TileType.PROPERTY) {
+        const baseRent = tile.rent ? tile.rent[tile.houseCount || 0] : 0;
+        return !tile.houseCount && checkOwnsGroup(ownerId, tile.group, state.tiles) ? baseRent * 2 : baseRent;
+    }
+    if (tile.type === TileType.STATION) {
+        const stationsOwned = state.tiles.filter(t => t.group === ColorGroup.STATION && t.ownerId === ownerId).length;
+        const table = tile.rent || [];
+        return (table[Math.min(stationsOwned, table.length) - 1] ?? 25 * Math.pow(2, stationsOwned - 1)) * (boostedRent ? 2 : 1);
+    }
+    if (tile.type === TileType.UTILITY) {
+        const ownsAllUtilities = checkOwnsGroup(ownerId, ColorGroup.UTILITY, state.tiles);
+        return diceSum * (boostedRent || ownsAllUtilities ? 10 : 4);
+    }
+    return 0;
+};
+
+// Level 5 is a hotel, which takes the place of four houses
+const buildingsAt = (level: number) => level >= 5 ? { houses: 0, hotels: 1 } : { houses: level, hotels: 0 };
+
+export const countBuildings = (tiles: Tile[]) => tiles.reduce((sum, t) => {
+    const b = buildingsAt(t.houseCount || 0);
+    return { houses: sum.houses + b.houses, hotels: sum.hotels + b.hotels };
+}, { houses: 0, hotels: 0 });
+
+// Moves a tile to a new building level, taking buildings from or returning them to the bank
+export const setBuildingLevel = (state: GameState, tileId: number, houseCount: number): GameState => {
+    const tile = state.tiles.find(t => t.id === tileId);
+    if (!tile) return state;
+    const before = buildingsAt(tile.houseCount || 0);
+    const after = buildingsAt(houseCount);
+    return updateTile({
+        ...state,
+        houseSupply: state.houseSupply + before.houses - after.houses,
+        hotelSupply: state.hotelSupply + before.hotels - after.hotels
+    }, tileId, { houseCount });
+};
+
+// Even-building rule: a tile may only be built on if no tile in its group has
+// fewer buildings, and only sold from if no tile in its group has more.
+// Both return why the move is not allowed, or null if it is.
+export const getBuildError = (state: GameState, tile: Tile, playerId: string | undefined | null): string | null => {
+    const allTiles = state.tiles;
+    if (tile.type !== TileType.PROPERTY || !tile.houseCost) return "该地块不能建造房屋。";
+    if (!playerId || tile.ownerId !== playerId) return "只能在自己的地产上建造。";
+    if (!checkOwnsGroup(playerId, tile.group, allTiles)) return "需要拥有整个街区才能建造。";
+    if (allTiles.some(t => t.group === tile.group && t.isMortgaged)) return "街区内有抵押中的地产，无法升级！";
+    if ((tile.houseCount || 0) >= 5) return "已经达到最高等级！";
+
+    const fewest = Math.min(...allTiles.filter(t => t.group === tile.group).map(t => t.houseCount || 0));
+    if ((tile.houseCount || 0) > fewest) return "必须平均建造：请先升级同街区中房屋较少的地产。";
+
+    if ((tile.houseCount || 0) === 4 && state.hotelSupply < 1) return "银行没有剩余的酒店了！";
+    if ((tile.houseCount || 0) < 4 && state.houseSupply < 1) return "银行没有剩余的房屋了！";
+    return null;
+};
+
+export const getSellError = (state: GameState, tile: Tile, playerId: string | undefined | null): string | null => {
+    const allTiles = state.tiles;
+    if (!playerId || tile.ownerId !== playerId) return "只能出售自己地产上的房屋。";
+    if (!tile.houseCount) return "该地块上没有房屋。";
+
+    const most = Math.max(...allTiles.filter(t => t.group === tile.group).map(t => t.houseCount || 0));
+    if (tile.houseCount < most) return "必须平均出售：请先出售同街区中房屋较多的地产。";
+
+    // Selling a hotel leaves four houses standing, and those must come from the bank
+    if (tile.houseCount === 5 && state.houseSupply < 4) return "银行房屋不足，无法把酒店拆回房屋。";
+    return null;
+};
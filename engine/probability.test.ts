@@ -0,0 +1,30 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getLandingProbabilities, getRollDistribution } from './probability';
+import { DEFAULT_BOARD, DEFAULT_RULES } from '../constants';
+
+const { tiles, ...board } = DEFAULT_BOARD;
+const model = { tiles, board, rules: DEFAULT_RULES };
+
+const sum = (values: number[]) => values.reduce((total, p) => total + p, 0);
+
+test('landing probabilities form a distribution with jail the most likely square', () => {
+    const landing = getLandingProbabilities(model);
+    assert.equal(landing.length, tiles.length);
+    assert.ok(Math.abs(sum(landing) - 1) < 1e-9);
+    assert.equal(landing.indexOf(Math.max(...landing)), board.jailIndex);
+
+    assert.ok(Math.abs(sum(getRollDistribution(model, 0)) - 1) < 1e-9);
+});
+
+test('boards that differ only in their decks are not served from the same cache entry', () => {
+    const landing = getLandingProbabilities(model);
+    const noCards = getLandingProbabilities({ ...model, board: { ...board, decks: { CHANCE: [], COMMUNITY_CHEST: [] } } });
+
+    assert.equal(noCards.length, landing.length);
+    assert.notDeepEqual(noCards, landing);
+    // Without "go to jail" cards fewer turns end in jail
+    assert.ok(noCards[board.jailIndex] < landing[board.jailIndex]);
+    // Same decks as a new object still hit the cached result
+    assert.equal(getLandingProbabilities({ ...model, board: { ...board, decks: { ...board.decks } } }), landing);
+});
@@ -0,0 +1,148 @@
+import { GameState, TileType } from '../types';
+import { sendsToJail } from './cards';
+
+// Where tokens end up over a long game. Each roll is one step of a Markov chain
+// whose states are a square plus how many doubles in a row led there, or a
+// turn count in jail. Cards move the token according to the board's own decks,
+// each card equally likely. A jailed player is assumed to wait for doubles or
+// the forced bail, which is how jail is played once the board is bought up.
+// The AI uses these numbers to price squares; nothing here affects the game.
+
+type BoardModel = Pick<GameState, 'tiles' | 'board' | 'rules'>;
+
+const JAIL = -1; // Stands for "sent to jail" among landing outcomes
+const MAX_CARD_CHAIN = 3; // A card can move the token onto another card square
+const MAX_ITERATIONS = 1000;
+const TOLERANCE = 1e-12;
+
+const DICE: [number, number][] = [];
+for (let a = 1; a <= 6; a++) {
+    for (let b = 1; b <= 6; b++) DICE.push([a, b]);
+}
+const DICE_PROBABILITY = 1 / DICE.length;
+
+type Outcome = [target: number, probability: number];
+
+// Where a token that lands on `position` finishes once the square, and any card
+// drawn there, has been resolved
+const resolveLanding = (model: BoardModel, position: number, depth = 0): Outcome[] => {
+    const tile = model.tiles[position];
+    if (tile.type === TileType.GO_TO_JAIL) return [[JAIL, 1]];
+    if (depth >= MAX_CARD_CHAIN || (tile.type !== TileType.CHANCE && tile.type !== TileType.COMMUNITY_CHEST)) {
+        return [[position, 1]];
+    }
+
+    const cards = model.board.decks[tile.type === TileType.CHANCE ? 'CHANCE' : 'COMMUNITY_CHEST'];
+    if (cards.length === 0) return [[position, 1]];
+
+    const size = model.tiles.length;
+    return cards.flatMap((card): Outcome[] => {
+        let outcomes: Outcome[] = [[position, 1]];
+        if (sendsToJail(card, model.board.jailIndex)) {
+            outcomes = [[JAIL, 1]];
+        } else if (card.effectType === 'MOVE_TO' && model.tiles[card.value]) {
+            outcomes = resolveLanding(model, card.value, depth + 1);
+        } else if (card.effectType === 'MOVE_STEPS') {
+            outcomes = resolveLanding(model, ((position + card.value) % size + size) % size, depth + 1);
+        } else if (card.effectType === 'MOVE_TO_NEAREST') {
+            const target = model.tiles.find(t => t.id > position && t.type === card.nearest)
+                ?? model.tiles.find(t => t.type === card.nearest);
+            if (target) outcomes = [[target.id, 1]];
+        }
+        return outcomes.map(([target, p]) => [target, p / cards.length]);
+    });
+};
+
+// Chance of finishing a single roll from `from` on each square. Being sent to
+// jail counts as the jail square; a third double in a row is ignored.
+export const getRollDistribution = (model: BoardModel, from: number): number[] => {
+    const size = model.tiles.length;
+    const distribution = new Array(size).fill(0);
+    DICE.forEach(([a, b]) => {
+        resolveLanding(model, (from + a + b) % size).forEach(([target, p]) => {
+            distribution[target === JAIL ? model.board.jailIndex : target] += p * DICE_PROBABILITY;
+        });
+    });
+    return distribution;
+};
+
+const buildTransitions = (model: BoardModel): Outcome[][] => {
+    const size = model.tiles.length;
+    const { doublesLimit, maxJailTurns } = model.rules;
+    const stateOf = (position: number, doubles: number) => position * doublesLimit + doubles;
+    const jailState = (turns: number) => size * doublesLimit + turns;
+
+    // Each landing square resolves the same way whichever state it is reached from
+    const landings = model.tiles.map((_, position) => resolveLanding(model, position));
+    const moveFrom = (position: number, steps: number, doubles: number): Outcome[] =>
+        landings[(position + steps) % size].map(([target, p]) =>
+            [target === JAIL ? jailState(0) : stateOf(target, doubles), p * DICE_PROBABILITY]);
+
+    const transitions: Outcome[][] = [];
+    for (let position = 0; position < size; position++) {
+        for (let doubles = 0; doubles < doublesLimit; doubles++) {
+            transitions[stateOf(position, doubles)] = DICE.flatMap(([a, b]): Outcome[] => {
+                if (a !== b) return moveFrom(position, a + b, 0);
+                return doubles + 1 >= doublesLimit
+                    ? [[jailState(0), DICE_PROBABILITY]]
+                    : moveFrom(position, a + b, doubles + 1);
+            });
+        }
+    }
+    for (let turns = 0; turns < maxJailTurns; turns++) {
+        // Doubles free the player without another roll; the last failed turn forces bail
+        transitions[jailState(turns)] = DICE.flatMap(([a, b]): Outcome[] =>
+            a === b || turns >= maxJailTurns - 1
+                ? moveFrom(model.board.jailIndex, a + b, 0)
+                : [[jailState(turns + 1), DICE_PROBABILITY]]);
+    }
+    return transitions;
+};
+
+const cache = new Map<string, number[]>();
+
+// The decks' contents as a string. A game keeps the same decks object throughout,
+// so each one is only serialised once.
+const deckDigests = new WeakMap<GameState['board']['decks'], string>();
+const digestDecks = (decks: GameState['board']['decks']) => {
+    let digest = deckDigests.get(decks);
+    if (digest === undefined) {
+        digest = JSON.stringify(decks);
+        deckDigests.set(decks, digest);
+    }
+    return digest;
+};
+
+// Long-run share of rolls that finish on each square (time spent in jail counts
+// toward the jail square). Depends only on the board layout, decks and rules,
+// so results are cached per combination.
+export const getLandingProbabilities = (model: BoardModel): number[] => {
+    const { doublesLimit, maxJailTurns } = model.rules;
+    const key = [
+        model.board.id, model.board.jailIndex, doublesLimit, maxJailTurns,
+        model.tiles.map(t => t.type).join(','), digestDecks(model.board.decks)
+    ].join('|');
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const size = model.tiles.length;
+    const transitions = buildTransitions(model);
+    let distribution = new Array(transitions.length).fill(1 / transitions.length);
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const next = new Array(transitions.length).fill(0);
+        transitions.forEach((outcomes, from) => {
+            outcomes.forEach(([to, p]) => { next[to] += distribution[from] * p; });
+        });
+        const change = next.reduce((sum, p, s) => sum + Math.abs(p - distribution[s]), 0);
+        distribution = next;
+        if (change < TOLERANCE) break;
+    }
+
+    const landing = new Array(size).fill(0);
+    distribution.forEach((p, s) => {
+        const position = s >= size * doublesLimit ? model.board.jailIndex : Math.floor(s / doublesLimit);
+        landing[position] += p;
+    });
+    cache.set(key, landing);
+    return landing;
+};
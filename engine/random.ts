@@ -0,0 +1,32 @@
+import { Rng } from './helpers';
+
+// Seeded randomness. Every draw is a pure function of (seed, counter), so a game
+// keeps only those two numbers in its state and any game can be reproduced from
+// its seed and action list.
+
+// The n-th output of mulberry32 for a seed, in [0, 1)
+export const randomAt = (seed: number, counter: number): number => {
+    let t = (seed + Math.imul(counter + 1, 0x6D2B79F5)) | 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Accepts any integer-looking input and folds it into an unsigned 32-bit seed
+export const parseSeed = (input: unknown): number | null => {
+    if (input === null || input === undefined || input === '') return null;
+    const value = Number(input);
+    if (!Number.isFinite(value)) return null;
+    return Math.floor(value) >>> 0;
+};
+
+// An Rng that reads the stream from `counter` on; `counter()` tells where it stopped
+export const createSeededRng = (seed: number, counter: number): { rng: Rng; counter: () => number } => {
+    let next = counter;
+    return {
+        rng: () => randomAt(seed, next++),
+        counter: () => next
+    };
+};
@@ -0,0 +1,64 @@
+import { GameState, JournalEntry } from '../types';
+import { createInitialState, reduce } from './gameEngine';
+
+// Rebuilds a game from its journal. The starting state is recreated from the
+// game's own players, rules, board and seed, then every entry is re-applied at
+// its recorded time. Checkpoints every few steps keep scrubbing cheap without
+// holding a full copy of the state for every action.
+
+const CHECKPOINT_INTERVAL = 25;
+
+export interface Replay {
+    journal: JournalEntry[];
+    checkpoints: GameState[]; // checkpoints[i] is the state after i * CHECKPOINT_INTERVAL entries
+    divergedAt: number | null; // First entry whose result no longer matches the recording
+}
+
+export const createReplayStart = (game: GameState): GameState =>
+    createInitialState(
+        game.players.map(p => ({ id: p.id, name: p.name, isAI: p.isAI, isHost: false, aiProfile: p.aiProfile })),
+        game.roomId ?? 'replay',
+        game.rules,
+        { ...game.board, tiles: game.tiles },
+        game.rngSeed,
+        game.logs[0]?.timestamp
+    );
+
+// Re-applies one entry. A rejected action or different random draws mean the
+// engine no longer behaves as it did when the game was recorded.
+const applyEntry = (state: GameState, entry: JournalEntry): { state: GameState; diverged: boolean } => {
+    const { state: next } = reduce(state, entry.action, entry.at);
+    if (next === state) return { state, diverged: true };
+
+    const draws = next.journal[next.journal.length - 1].draws;
+    const diverged = draws.length !== entry.draws.length || draws.some((d, i) => d !== entry.draws[i]);
+    return { state: next, diverged };
+};
+
+export const buildReplay = (game: GameState): Replay => {
+    const journal = game.journal;
+    let state = createReplayStart(game);
+    const checkpoints = [state];
+    let divergedAt: number | null = null;
+
+    journal.forEach((entry, i) => {
+        const step = applyEntry(state, entry);
+        state = step.state;
+        if (step.diverged && divergedAt === null) divergedAt = i;
+        if ((i + 1) % CHECKPOINT_INTERVAL === 0) checkpoints.push(state);
+    });
+
+    return { journal, checkpoints, divergedAt };
+};
+
+// State after the first `index` journal entries
+export const replayStateAt = (replay: Replay, index: number): GameState => {
+    const target = Math.max(0, Math.min(index, replay.journal.length));
+    const checkpoint = Math.floor(target / CHECKPOINT_INTERVAL);
+
+    let state = replay.checkpoints[checkpoint];
+    for (let i = checkpoint * CHECKPOINT_INTERVAL; i < target; i++) {
+        state = applyEntry(state, replay.journal[i]).state;
+    }
+    return state;
+};
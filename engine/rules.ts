@@ -0,0 +1,34 @@
+import { RuleSet } from '../types';
+import { DEFAULT_RULES } from '../constants';
+
+// House rules arrive from clients, so every field is checked and clamped to a
+// sane range before a room or game uses them. Missing fields keep the defaults.
+
+const NUMBER_LIMITS: Record<'startingMoney' | 'goSalary' | 'bailAmount' | 'maxJailTurns' | 'doublesLimit' | 'houseSupply' | 'hotelSupply', [number, number]> = {
+    startingMoney: [100, 10000],
+    goSalary: [0, 1000],
+    bailAmount: [0, 500],
+    maxJailTurns: [1, 5],
+    doublesLimit: [2, 5],
+    houseSupply: [4, 100],
+    hotelSupply: [1, 50]
+};
+
+const FLAGS = ['auctionsEnabled', 'freeParkingJackpot', 'doubleSalaryOnGo', 'noRentInJail'] as const;
+
+export const sanitizeRules = (input: unknown, base: RuleSet = DEFAULT_RULES): RuleSet => {
+    const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const rules: RuleSet = { ...base };
+
+    (Object.keys(NUMBER_LIMITS) as (keyof typeof NUMBER_LIMITS)[]).forEach(key => {
+        const value = Math.floor(Number(raw[key]));
+        if (raw[key] === undefined || !Number.isFinite(value)) return;
+        const [min, max] = NUMBER_LIMITS[key];
+        rules[key] = Math.min(max, Math.max(min, value));
+    });
+    FLAGS.forEach(key => {
+        if (typeof raw[key] === 'boolean') rules[key] = raw[key] as boolean;
+    });
+
+    return rules;
+};
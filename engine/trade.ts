@@ -0,0 +1,186 @@
+import { GameState, Player, GameLog, TradeOffer, TradeTerms } from '../types';
+import { createLog, groupHasBuildings } from './helpers';
+
+// Player-to-player trading. Only one offer is open at a time; the recipient can
+// accept, reject or counter it, and the proposer can withdraw it.
+
+// Named after the action that creates the offer, so every client and replay agrees on it
+const tradeId = (state: GameState) => `trade-${state.journal.length}`;
+
+const toCount = (value: unknown) => Math.max(0, Math.floor(Number(value) || 0));
+
+const toTileIds = (value: unknown): number[] =>
+    Array.isArray(value) ? Array.from(new Set(value.map(Number).filter(Number.isInteger))) : [];
+
+// Payloads arrive over the network, so normalise them before trusting any field
+export const sanitizeTerms = (input: unknown): TradeTerms => {
+    const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    return {
+        toPlayerId: typeof raw.toPlayerId === 'string' ? raw.toPlayerId : '',
+        offeredProperties: toTileIds(raw.offeredProperties),
+        requestedProperties: toTileIds(raw.requestedProperties),
+        offeredMoney: toCount(raw.offeredMoney),
+        requestedMoney: toCount(raw.requestedMoney),
+        offeredJailCards: toCount(raw.offeredJailCards),
+        requestedJailCards: toCount(raw.requestedJailCards)
+    };
+};
+
+// Returns why the trade cannot happen in this state, or null if it can
+export const validateTrade = (state: GameState, fromPlayerId: string, terms: TradeTerms): string | null => {
+    const from = state.players.find(p => p.id === fromPlayerId);
+    const to = state.players.find(p => p.id === terms.toPlayerId);
+    if (!from || !to || from.id === to.id) return "交易对象无效。";
+    if (from.bankrupt || to.bankrupt) return "破产玩家不能参与交易。";
+
+    const isEmpty = terms.offeredProperties.length === 0 && terms.requestedProperties.length === 0 &&
+        terms.offeredMoney === 0 && terms.requestedMoney === 0 &&
+        terms.offeredJailCards === 0 && terms.requestedJailCards === 0;
+    if (isEmpty) return "交易内容为空。";
+
+    const ownsAll = (player: Player, tileIds: number[]) =>
+        tileIds.every(id => state.tiles.find(t => t.id === id)?.ownerId === player.id);
+    if (!ownsAll(from, terms.offeredProperties)) return `${from.name} 并不拥有所有提供的地产。`;
+    if (!ownsAll(to, terms.requestedProperties)) return `${to.name} 并不拥有所有索要的地产。`;
+
+    const traded = [...terms.offeredProperties, ...terms.requestedProperties];
+    const hasBuildings = traded.some(id => {
+        const tile = state.tiles.find(t => t.id === id);
+        return !!tile && groupHasBuildings(tile.group, state.tiles);
+    });
+    if (hasBuildings) return "街区内还有房屋的地产不能交易。";
+
+    if (terms.offeredMoney > from.money) return `${from.name} 现金不足。`;
+    if (terms.requestedMoney > to.money) return `${to.name} 现金不足。`;
+    if (terms.offeredJailCards > from.getOutOfJailCards) return `${from.name} 没有足够的出狱卡。`;
+    if (terms.requestedJailCards > to.getOutOfJailCards) return `${to.name} 没有足够的出狱卡。`;
+
+    return null;
+};
+
+const describeSide = (state: GameState, tileIds: number[], money: number, jailCards: number) => {
+    const parts = tileIds.map(id => state.tiles.find(t => t.id === id)?.name).filter(Boolean) as string[];
+    if (money > 0) parts.push(`$${money}`);
+    if (jailCards > 0) parts.push(`${jailCards} 张出狱卡`);
+    return parts.length > 0 ? parts.join('、') : '无';
+};
+
+export const describeTrade = (state: GameState, offer: TradeOffer) =>
+    `给出 [${describeSide(state, offer.offeredProperties, offer.offeredMoney, offer.offeredJailCards)}]，` +
+    `换取 [${describeSide(state, offer.requestedProperties, offer.requestedMoney, offer.requestedJailCards)}]`;
+
+// Moves every asset in one step so a trade is never half-applied
+export const applyTrade = (state: GameState, offer: TradeOffer): GameState => {
+    const settle = (p: Player): Player => {
+        if (p.id === offer.fromPlayerId) {
+            return {
+                ...p,
+                money: p.money - offer.offeredMoney + offer.requestedMoney,
+                properties: [...p.properties.filter(id => !offer.offeredProperties.includes(id)), ...offer.requestedProperties],
+                getOutOfJailCards: p.getOutOfJailCards - offer.offeredJailCards + offer.requestedJailCards
+            };
+        }
+        if (p.id === offer.toPlayerId) {
+            return {
+                ...p,
+                money: p.money - offer.requestedMoney + offer.offeredMoney,
+                properties: [...p.properties.filter(id => !offer.requestedProperties.includes(id)), ...offer.offeredProperties],
+                getOutOfJailCards: p.getOutOfJailCards - offer.requestedJailCards + offer.offeredJailCards
+            };
+        }
+        return p;
+    };
+
+    return {
+        ...state,
+        players: state.players.map(settle),
+        tiles: state.tiles.map(t => {
+            if (offer.offeredProperties.includes(t.id)) return { ...t, ownerId: offer.toPlayerId };
+            if (offer.requestedProperties.includes(t.id)) return { ...t, ownerId: offer.fromPlayerId };
+            return t;
+        }),
+        pendingTrade: null
+    };
+};
+
+// Drops any open offer involving a player who has left the game
+export const clearTradesFor = (state: GameState, playerId: string): GameState => {
+    const trade = state.pendingTrade;
+    if (!trade || (trade.fromPlayerId !== playerId && trade.toPlayerId !== playerId)) return state;
+    return { ...state, pendingTrade: null };
+};
+
+// --- TRADE PROCESSORS ---
+
+export const processProposeTrade = (state: GameState, player: Player, rawTerms: unknown, logs: GameLog[]): GameState => {
+    if (state.pendingTrade) {
+        logs.push(createLog("已有一笔交易正在进行中，请等待其完成。", 'warning'));
+        return state;
+    }
+
+    const terms = sanitizeTerms(rawTerms);
+    const error = validateTrade(state, player.id, terms);
+    if (error) {
+        logs.push(createLog(`交易无效: ${error}`, 'warning'));
+        return state;
+    }
+
+    const offer: TradeOffer = { ...terms, id: tradeId(state), fromPlayerId: player.id };
+    const target = state.players.find(p => p.id === terms.toPlayerId)!;
+    logs.push(createLog(`${player.name} 向 ${target.name} 提出交易: ${describeTrade(state, offer)}。`, 'info'));
+
+    return { ...state, pendingTrade: offer };
+};
+
+export const processAcceptTrade = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const offer = state.pendingTrade;
+    if (!offer || offer.toPlayerId !== player.id) return state;
+
+    // Assets may have changed since the offer was made
+    const error = validateTrade(state, offer.fromPlayerId, offer);
+    if (error) {
+        logs.push(createLog(`交易已失效: ${error}`, 'warning'));
+        return { ...state, pendingTrade: null };
+    }
+
+    const proposer = state.players.find(p => p.id === offer.fromPlayerId)!;
+    logs.push(createLog(`${player.name} 接受了 ${proposer.name} 的交易，资产已交换。`, 'success'));
+
+    return applyTrade(state, offer);
+};
+
+export const processRejectTrade = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const offer = state.pendingTrade;
+    if (!offer || offer.toPlayerId !== player.id) return state;
+
+    const proposer = state.players.find(p => p.id === offer.fromPlayerId);
+    logs.push(createLog(`${player.name} 拒绝了 ${proposer?.name} 的交易。`, 'warning'));
+    return { ...state, pendingTrade: null };
+};
+
+export const processCancelTrade = (state: GameState, player: Player, logs: GameLog[]): GameState => {
+    const offer = state.pendingTrade;
+    if (!offer || offer.fromPlayerId !== player.id) return state;
+
+    logs.push(createLog(`${player.name} 撤回了交易提议。`));
+    return { ...state, pendingTrade: null };
+};
+
+// A counter-offer replaces the open offer, with the recipient becoming the proposer
+export const processCounterTrade = (state: GameState, player: Player, rawTerms: unknown, logs: GameLog[]): GameState => {
+    const offer = state.pendingTrade;
+    if (!offer || offer.toPlayerId !== player.id) return state;
+
+    const terms = { ...sanitizeTerms(rawTerms), toPlayerId: offer.fromPlayerId };
+    const error = validateTrade(state, player.id, terms);
+    if (error) {
+        logs.push(createLog(`还价无效: ${error}`, 'warning'));
+        return state;
+    }
+
+    const counter: TradeOffer = { ...terms, id: tradeId(state), fromPlayerId: player.id };
+    const target = state.players.find(p => p.id === offer.fromPlayerId)!;
+    logs.push(createLog(`${player.name} 向 ${target.name} 还价: ${describeTrade(state, counter)}。`, 'info'));
+
+    return { ...state, pendingTrade: counter };
+};
@@ -0,0 +1,54 @@
+// Stand-in for the Gemini generateContent endpoint, for trying the Gemini AI offline:
+//   npm run mock:gemini
+//   AI_PROVIDER=gemini GEMINI_API_KEY=test GEMINI_BASE_URL=http://localhost:8787 npm run server
+// MOCK_GEMINI_MODE picks the reply: buy (default), pass, invalid, error or slow.
+import http from "http";
+import { pathToFileURL } from "url";
+
+const SLOW_REPLY_MS = 60 * 1000;
+
+const reply = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const candidate = (text) => ({ candidates: [{ content: { role: "model", parts: [{ text }] } }] });
+
+// Also used by services/geminiProvider.test.ts, which starts one per mode on a free port
+export const createMockGemini = (mode = "buy") => http.createServer((req, res) => {
+  if (req.method !== "POST" || !/:generateContent$/.test(req.url)) return reply(res, 404, { error: { message: "Not found" } });
+
+  let body = "";
+  req.on("data", chunk => { body += chunk; });
+  req.on("end", () => {
+    let prompt;
+    try {
+      prompt = JSON.parse(body || "{}").contents?.[0]?.parts?.[0]?.text ?? "";
+    } catch {
+      return reply(res, 400, { error: { message: "Invalid JSON body" } });
+    }
+    console.log(`[${mode}] prompt (${prompt.length} chars), key ${req.headers["x-goog-api-key"] ? "present" : "missing"}`);
+
+    switch (mode) {
+      case "pass":
+        return reply(res, 200, candidate(JSON.stringify({ action: "PASS", reasoning: "Mock 决定放弃" })));
+      case "invalid":
+        return reply(res, 200, candidate("我觉得应该买下来"));
+      case "error":
+        return reply(res, 500, { error: { message: "Mock failure" } });
+      case "slow": {
+        const timer = setTimeout(() => reply(res, 200, candidate(JSON.stringify({ action: "PASS", reasoning: "太慢了" }))), SLOW_REPLY_MS);
+        res.on("close", () => clearTimeout(timer));
+        return;
+      }
+      default:
+        return reply(res, 200, candidate(JSON.stringify({ action: "BUY", reasoning: "Mock 决定买下" })));
+    }
+  });
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_GEMINI_PORT) || 8787;
+  const mode = process.env.MOCK_GEMINI_MODE || "buy";
+  createMockGemini(mode).listen(port, () => console.log(`Mock Gemini API (${mode}) on http://localhost:${port}`));
+}
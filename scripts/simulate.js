@@ -0,0 +1,260 @@
+// Plays AI-only games without a browser or server, for balancing boards, rules and AI profiles:
+//   npm run simulate -- --games 2000 --players hard/builder,normal/saver,normal/balanced,easy/collector
+// Options:
+//   --games <n>         games to play (default 1000)
+//   --players <list>    comma-separated difficulty/personality per seat (default 4 x normal/balanced)
+//   --board <file>      board definition JSON (default: the built-in board)
+//   --rules <file>      house rules JSON; missing fields keep the defaults
+//   --seed <n>          seed of the first game; game i uses seed + i (default 1)
+//   --max-turns <n>     stop a game that has not finished after this many turns (default 500)
+//   --fixed-seats       keep every profile in its seat instead of rotating seats between games
+//   --format json|csv   report format (default json)
+//   --out <path>        write the report to a file (json) or directory (csv) instead of stdout
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { reduce, createInitialState } from "../engine/gameEngine.ts";
+import { sanitizeRules } from "../engine/rules.ts";
+import { validateBoard } from "../engine/board.ts";
+import { DEFAULT_RULES, DEFAULT_BOARD, MIN_ROOM_PLAYERS, MAX_ROOM_PLAYERS } from "../constants.ts";
+import { getPendingAIActions, heuristicProvider, setAIProvider } from "../services/geminiService.ts";
+import { AI_DIFFICULTIES, AI_PERSONALITIES } from "../services/aiProfiles.ts";
+import { GamePhase } from "../types.ts";
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+
+const readJson = (file) => {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    fail(`Could not read ${file}: ${e.message}`);
+  }
+};
+
+const parsePositiveInt = (value, name) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) fail(`--${name} must be a positive integer`);
+  return n;
+};
+
+const parseProfiles = (list) => {
+  const profiles = list.split(",").map(entry => {
+    const [difficulty = "", personality = "BALANCED"] = entry.trim().toUpperCase().split("/");
+    if (!AI_DIFFICULTIES.includes(difficulty) || !AI_PERSONALITIES.includes(personality)) {
+      fail(`Unknown AI profile "${entry}". Use difficulty/personality with difficulty one of ${AI_DIFFICULTIES.join(", ")} and personality one of ${AI_PERSONALITIES.join(", ")}`);
+    }
+    return { difficulty, personality };
+  });
+  if (profiles.length < MIN_ROOM_PLAYERS || profiles.length > MAX_ROOM_PLAYERS) {
+    fail(`--players needs between ${MIN_ROOM_PLAYERS} and ${MAX_ROOM_PLAYERS} entries`);
+  }
+  return profiles;
+};
+
+const parseOptions = () => {
+  const { values } = parseArgs({
+    options: {
+      games: { type: "string", default: "1000" },
+      players: { type: "string", default: "normal/balanced,normal/balanced,normal/balanced,normal/balanced" },
+      board: { type: "string" },
+      rules: { type: "string" },
+      seed: { type: "string", default: "1" },
+      "max-turns": { type: "string", default: "500" },
+      "fixed-seats": { type: "boolean", default: false },
+      format: { type: "string", default: "json" },
+      out: { type: "string" }
+    }
+  });
+
+  let board = DEFAULT_BOARD;
+  if (values.board) {
+    const result = validateBoard(readJson(values.board));
+    if (!result.board) fail(`Invalid board ${values.board}:\n  ${result.errors.join("\n  ")}`);
+    board = result.board;
+  }
+  if (!["json", "csv"].includes(values.format)) fail("--format must be json or csv");
+
+  const seed = Number(values.seed);
+  if (!Number.isInteger(seed) || seed < 0) fail("--seed must be a non-negative integer");
+
+  return {
+    games: parsePositiveInt(values.games, "games"),
+    profiles: parseProfiles(values.players),
+    board,
+    rules: values.rules ? sanitizeRules(readJson(values.rules)) : DEFAULT_RULES,
+    seed,
+    maxTurns: parsePositiveInt(values["max-turns"], "max-turns"),
+    rotateSeats: !values["fixed-seats"],
+    format: values.format,
+    out: values.out
+  };
+};
+
+const strategyName = (profile) => `${profile.difficulty}/${profile.personality}`;
+
+// Plays one game to the end (or the turn limit) and records what happened in `stats`
+const playGame = async (options, seed, seating, stats) => {
+  const seats = seating.map((profile, i) => ({ id: `seat${i + 1}`, name: `${i + 1} ${strategyName(profile)}`, isAI: true, isHost: false, aiProfile: profile }));
+  let state = createInitialState(seats, "simulation", options.rules, options.board, seed);
+  let now = 0;
+  let turns = 0;
+  let actions = 0;
+
+  // Counts what the engine reports it did: every square landed on (card moves
+  // included), every rent charged and the debt behind every bankruptcy
+  const record = ({ detail }) => {
+    if (!detail) return;
+    if (detail.kind === "LANDING") stats.landings[detail.tileId]++;
+    if (detail.kind === "RENT") {
+      const group = state.tiles[detail.tileId].group;
+      stats.rentByGroup[group] = (stats.rentByGroup[group] || 0) + detail.amount;
+    }
+    if (detail.kind === "BANKRUPTCY") {
+      const cause = detail.debt ? detail.debt.reason : "SURRENDER";
+      stats.bankruptcies[cause] = (stats.bankruptcies[cause] || 0) + 1;
+    }
+  };
+
+  const apply = (action) => {
+    const { state: next, events } = reduce(state, action, (now += 1000));
+    if (next === state) return false;
+    actions++;
+    if (action.type === "END_TURN") turns++;
+
+    events.forEach(record);
+    state = next;
+    return true;
+  };
+
+  while (state.phase !== GamePhase.GAME_OVER && turns < options.maxTurns) {
+    let pending = await getPendingAIActions(state);
+    // Online the server closes an auction when its timer runs out
+    if (pending.length === 0 && state.phase === GamePhase.AUCTION) {
+      pending = [{ type: "CLOSE_AUCTION", playerId: state.players[state.currentPlayerIndex].id }];
+    }
+    let progressed = false;
+    for (const action of pending) progressed = apply(action) || progressed;
+    if (!progressed) break;
+  }
+
+  const winnerSeat = state.winner ? seats.findIndex(s => s.id === state.winner.id) : -1;
+  seating.forEach((profile, i) => {
+    const strategy = strategyName(profile);
+    stats.seats[i].games++;
+    stats.strategies[strategy] = stats.strategies[strategy] || { games: 0, wins: 0 };
+    stats.strategies[strategy].games++;
+    if (i === winnerSeat) {
+      stats.seats[i].wins++;
+      stats.strategies[strategy].wins++;
+    }
+  });
+  if (winnerSeat >= 0) {
+    stats.finished++;
+    stats.finishedTurns += turns;
+    stats.finishedActions += actions;
+  }
+};
+
+const rate = (wins, games) => (games ? Number((wins / games).toFixed(4)) : 0);
+
+const buildReport = (options, stats) => {
+  const totalLandings = stats.landings.reduce((sum, n) => sum + n, 0);
+  return {
+    config: {
+      games: options.games,
+      firstSeed: options.seed,
+      board: options.board.id,
+      players: options.profiles.map(strategyName),
+      rotateSeats: options.rotateSeats,
+      maxTurns: options.maxTurns,
+      rules: options.rules
+    },
+    summary: {
+      games: options.games,
+      finished: stats.finished,
+      unfinished: options.games - stats.finished,
+      averageTurns: stats.finished ? Number((stats.finishedTurns / stats.finished).toFixed(1)) : null,
+      averageActions: stats.finished ? Number((stats.finishedActions / stats.finished).toFixed(1)) : null
+    },
+    seats: stats.seats.map((s, i) => ({ seat: i + 1, games: s.games, wins: s.wins, winRate: rate(s.wins, s.games) })),
+    strategies: Object.entries(stats.strategies).map(([strategy, s]) => ({ strategy, games: s.games, wins: s.wins, winRate: rate(s.wins, s.games) })),
+    tiles: options.board.tiles.map(t => ({
+      id: t.id,
+      name: t.name,
+      type: t.type,
+      group: t.group,
+      landings: stats.landings[t.id],
+      share: rate(stats.landings[t.id], totalLandings)
+    })),
+    groups: Object.entries(stats.rentByGroup)
+      .filter(([, rent]) => rent > 0)
+      .map(([group, rent]) => ({ group, rent, rentPerGame: Math.round(rent / options.games) })),
+    bankruptcies: Object.entries(stats.bankruptcies).map(([cause, count]) => ({ cause, count }))
+  };
+};
+
+const csvValue = (value) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows) => {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]);
+  return [columns.join(","), ...rows.map(row => columns.map(c => csvValue(row[c])).join(","))].join("\n") + "\n";
+};
+
+const writeReport = (options, report) => {
+  if (options.format === "json") {
+    const json = JSON.stringify(report, null, 2) + "\n";
+    if (options.out) fs.writeFileSync(options.out, json);
+    else process.stdout.write(json);
+    return;
+  }
+
+  const tables = {
+    summary: [{ board: report.config.board, ...report.summary }],
+    seats: report.seats,
+    strategies: report.strategies,
+    tiles: report.tiles,
+    groups: report.groups,
+    bankruptcies: report.bankruptcies
+  };
+  if (options.out) {
+    fs.mkdirSync(options.out, { recursive: true });
+    Object.entries(tables).forEach(([name, rows]) => fs.writeFileSync(path.join(options.out, `${name}.csv`), toCsv(rows)));
+  } else {
+    process.stdout.write(Object.entries(tables).map(([name, rows]) => `# ${name}\n${toCsv(rows)}`).join("\n"));
+  }
+};
+
+const main = async () => {
+  const options = parseOptions();
+  // Never call out to a remote model from a batch run
+  setAIProvider(heuristicProvider);
+
+  const stats = {
+    finished: 0,
+    finishedTurns: 0,
+    finishedActions: 0,
+    seats: options.profiles.map(() => ({ games: 0, wins: 0 })),
+    strategies: {},
+    landings: new Array(options.board.tiles.length).fill(0),
+    rentByGroup: {},
+    bankruptcies: {}
+  };
+
+  for (let i = 0; i < options.games; i++) {
+    const shift = options.rotateSeats ? i % options.profiles.length : 0;
+    const seating = [...options.profiles.slice(shift), ...options.profiles.slice(0, shift)];
+    await playGame(options, options.seed + i, seating, stats);
+    if ((i + 1) % 100 === 0 || i + 1 === options.games) console.error(`${i + 1}/${options.games} games`);
+  }
+
+  writeReport(options, buildReport(options, stats));
+};
+
+main();
@@ -1,5 +1,16 @@
-const { Server } = require("socket.io");
-const http = require("http");
+import { Server } from "socket.io";
+import http from "http";
+import fs from "fs";
+import path from "path";
+import { randomUUID, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { reduce, createInitialState, setAIControl } from "./engine/gameEngine.ts";
+import { sanitizeRules } from "./engine/rules.ts";
+import { validateBoard } from "./engine/board.ts";
+import { parseSeed } from "./engine/random.ts";
+import { DEFAULT_RULES, DEFAULT_BOARD, MIN_ROOM_PLAYERS, MAX_ROOM_PLAYERS, DEFAULT_ROOM_PLAYERS } from "./constants.ts";
+import { getPendingAIActions } from "./services/geminiService.ts";
+import { sanitizeAIProfile } from "./services/aiProfiles.ts";
+import { GamePhase } from "./types.ts";
 
 const server = http.createServer();
 const io = new Server(server, {
@@ -9,97 +20,606 @@ const io = new Server(server, {
   }
 });
 
-const rooms = {}; // { roomId: { id, name, hostId, socketHostId, players: [], status } }
+// Keyed by ids clients send, so without a prototype: rooms["constructor"] is just missing
+const rooms = Object.create(null); // { roomId: { id, name, hostId, socketHostId, players: [], status } }
+const games = Object.create(null); // { roomId: GameState } - the server is the single source of truth
+
+const aiTimers = {}; // { roomId: Timeout }
+const auctionTimers = {}; // { roomId: Timeout }
+const snapshotTimers = {}; // { roomId: Timeout }
+const graceTimers = {}; // { "roomId:playerId": Timeout } - player ids come from clients and can repeat across rooms
+
+// How long a dropped player has to come back before an AI takes over their seat
+const GRACE_PERIOD_MS = Number(process.env.GRACE_PERIOD_MS) || 60 * 1000;
+// Rooms with no connected human are removed after this long
+const EMPTY_ROOM_TTL_MS = Number(process.env.EMPTY_ROOM_TTL_MS) || 10 * 60 * 1000;
+const ROOM_SWEEP_INTERVAL_MS = Number(process.env.ROOM_SWEEP_INTERVAL_MS) || 60 * 1000;
+
+// Every socket may send at most this many events per window; the rest are dropped
+const RATE_LIMIT_WINDOW_MS = 1000;
+const RATE_LIMIT_MAX_EVENTS = 15;
+const NAME_MAX_LENGTH = 20;
+const PASSWORD_MAX_LENGTH = 64;
+
+// Events whose payload may be left out; every other event needs an object
+const OPTIONAL_PAYLOAD_EVENTS = ["get_rooms"];
+
+const isObject = (value) => !!value && typeof value === "object" && !Array.isArray(value);
+const cleanName = (value) => typeof value === "string" ? value.trim().slice(0, NAME_MAX_LENGTH) : "";
+const isValidId = (value) => typeof value === "string" && value.length > 0 && value.length <= 64;
+const isValidAction = (action) =>
+  isObject(action) && typeof action.type === "string" && typeof action.playerId === "string" &&
+  (action.payload === undefined || isObject(action.payload));
+
+// Structured reply for anything the server refuses, so the client can tell the player why
+const reject = (socket, event, reason, message, extra = {}) => {
+  socket.emit("action_rejected", { event, reason, message, ...extra });
+};
+
+// The seat this socket is playing, if it is still the socket bound to it
+const seatOf = (socket, roomId) => {
+  const room = rooms[roomId];
+  if (!room || socket.data.roomId !== roomId) return null;
+  return room.players.find(p => p.id === socket.data.playerId && p.socketId === socket.id) ?? null;
+};
+
+const bindSocket = (socket, roomId, playerId) => {
+  socket.data.roomId = roomId;
+  socket.data.playerId = playerId;
+  socket.join(roomId);
+};
+
+const unbindSocket = (socket) => {
+  if (socket.data.roomId) socket.leave(socket.data.roomId);
+  socket.data.roomId = null;
+  socket.data.playerId = null;
+};
+
+// Room ids double as invite codes, so they must not be guessable
+const ROOM_ID_BYTES = 9;
+const createRoomId = () => {
+  let roomId;
+  do roomId = randomBytes(ROOM_ID_BYTES).toString("base64url");
+  while (rooms[roomId]);
+  return roomId;
+};
+
+// Room passwords are kept only as salted scrypt hashes
+const hashPassword = (password) => {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${scryptSync(password, salt, 32).toString("hex")}`;
+};
+
+const checkPassword = (password, stored) => {
+  const [salt, hash] = stored.split(":");
+  const attempt = scryptSync(typeof password === "string" ? password : "", salt, 32);
+  return timingSafeEqual(attempt, Buffer.from(hash, "hex"));
+};
+
+// Seat tokens, password hashes and socket ids never leave the server; everything broadcast goes through here
+const publicRoom = ({ passwordHash, socketHostId, ...room }) => ({ ...room, players: room.players.map(({ token, socketId, ...p }) => p) });
+
+// Each lobby socket picks which rooms it sees: { status: 'ALL' | 'WAITING' | 'PLAYING', hideFull }
+const parseLobbyFilter = (filter) => ({
+  status: ['WAITING', 'PLAYING'].includes(filter?.status) ? filter.status : 'ALL',
+  hideFull: !!filter?.hideFull
+});
+
+// Private rooms are never listed; they are joined by invite code (the room id)
+const lobbyRooms = (filter = parseLobbyFilter()) => Object.values(rooms)
+  .filter(r => !r.isPrivate)
+  .filter(r => filter.status === 'ALL' || r.status === filter.status)
+  .filter(r => !filter.hideFull || r.players.length < r.maxPlayers)
+  .map(publicRoom);
+
+// Only sockets in the lobby get the room list; seated players follow their own room
+const broadcastLobby = () => {
+  for (const s of io.sockets.sockets.values()) {
+    if (!s.data.roomId) s.emit("rooms_list_update", lobbyRooms(s.data.lobbyFilter));
+  }
+};
+
+// Rooms and their games are written to disk so a restarted server can pick them up again
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || "snapshots";
+const SNAPSHOT_DELAY_MS = 1000;
+
+const writeSnapshot = async (roomId) => {
+  const room = rooms[roomId];
+  if (!room) return;
+
+  const file = path.join(SNAPSHOT_DIR, `${roomId}.json`);
+  try {
+    await fs.promises.mkdir(SNAPSHOT_DIR, { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated snapshot
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({ room, game: games[roomId] ?? null }));
+    await fs.promises.rename(`${file}.tmp`, file);
+    // The room may have been removed while we were writing
+    if (!rooms[roomId]) await fs.promises.rm(file, { force: true });
+  } catch (e) {
+    console.error(`Error saving snapshot for room ${roomId}:`, e);
+  }
+};
+
+// Bursts of changes (e.g. a run of AI moves) share one write
+const scheduleSnapshot = (roomId) => {
+  if (snapshotTimers[roomId]) return;
+  snapshotTimers[roomId] = setTimeout(() => {
+    delete snapshotTimers[roomId];
+    writeSnapshot(roomId);
+  }, SNAPSHOT_DELAY_MS);
+};
+
+const loadSnapshots = () => {
+  if (!fs.existsSync(SNAPSHOT_DIR)) return;
+
+  for (const name of fs.readdirSync(SNAPSHOT_DIR)) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      const { room, game } = JSON.parse(fs.readFileSync(path.join(SNAPSHOT_DIR, name), "utf8"));
+      rooms[room.id] = room;
+      if (game) games[room.id] = game;
+    } catch (e) {
+      console.error(`Skipping unreadable snapshot ${name}:`, e);
+    }
+  }
+  console.log(`Restored ${Object.keys(rooms).length} room(s) from ${SNAPSHOT_DIR}/`);
+};
+
+// Store a new state, sync it to the room and kick off any server-side follow-ups
+const commitState = (roomId, nextState) => {
+  games[roomId] = nextState;
+  io.to(roomId).emit("game_state_sync", nextState);
+  scheduleAuctionClose(roomId);
+  scheduleSnapshot(roomId);
+};
+
+// Apply an action with the shared rules engine and broadcast the result.
+// Returns false when the engine refused it.
+const applyAction = (roomId, action) => {
+  const state = games[roomId];
+  if (!state) return false;
+
+  const { state: nextState } = reduce(state, action);
+  if (nextState === state) return false;
+
+  commitState(roomId, nextState);
+  scheduleAITurn(roomId);
+  return true;
+};
+
+// Run AI seats server-side so the game does not depend on any browser
+const scheduleAITurn = (roomId) => {
+  if (aiTimers[roomId]) return;
+
+  const state = games[roomId];
+  if (!state || state.phase === GamePhase.GAME_OVER) return;
+
+  aiTimers[roomId] = setTimeout(async () => {
+    let changed = false;
+    try {
+      if (!games[roomId]) return;
+      const actions = await getPendingAIActions(games[roomId]);
+      for (let i = 0; i < actions.length; i++) {
+        if (i > 0) await new Promise(r => setTimeout(r, 500));
+        if (!games[roomId]) break;
+        const { state: nextState } = reduce(games[roomId], actions[i]);
+        if (nextState === games[roomId]) continue;
+        changed = true;
+        commitState(roomId, nextState);
+      }
+    } catch (e) {
+      console.error("Error running AI turn:", e);
+    } finally {
+      delete aiTimers[roomId];
+      // Keep going while the AIs are making progress; human actions restart the loop
+      if (changed) scheduleAITurn(roomId);
+    }
+  }, 1000);
+};
+
+// Close a running auction once its timer runs out
+const scheduleAuctionClose = (roomId) => {
+  clearTimeout(auctionTimers[roomId]);
+  delete auctionTimers[roomId];
+
+  const state = games[roomId];
+  if (!state || !state.auction) return;
+
+  auctionTimers[roomId] = setTimeout(() => {
+    const current = games[roomId];
+    if (!current || !current.auction) return;
+    applyAction(roomId, { type: 'CLOSE_AUCTION', playerId: current.players[current.currentPlayerIndex].id });
+  }, Math.max(0, state.auction.endsAt - Date.now()) + 100);
+};
+
+// Host duties (settings, starting, adding AIs) pass to the next connected human
+// once the host's socket is gone. The new host also gets the latest game state.
+const migrateHost = (room) => {
+  const host = room.players.find(p => p.id === room.hostId);
+  if (host?.socketId) return;
+
+  const next = room.players.find(p => !p.isAI && p.socketId);
+  if (!next) return;
+
+  room.players.forEach(p => { p.isHost = p.id === next.id; });
+  room.hostId = next.id;
+  room.socketHostId = next.socketId;
+  console.log(`Host of room ${room.id} passed to ${next.name}`);
+
+  scheduleSnapshot(room.id);
+  io.to(room.id).emit("host_changed", { roomId: room.id, hostId: next.id });
+  if (games[room.id]) io.to(next.socketId).emit("game_state_sync", games[room.id]);
+};
+
+const graceKey = (room, seat) => `${room.id}:${seat.id}`;
+
+const clearGracePeriod = (room, seat) => {
+  clearTimeout(graceTimers[graceKey(room, seat)]);
+  delete graceTimers[graceKey(room, seat)];
+  seat.graceEndsAt = null;
+};
+
+const handSeatToAI = (room, seat) => {
+  clearGracePeriod(room, seat);
+  const state = games[room.id];
+  if (seat.aiTakeover || !state || state.phase === GamePhase.GAME_OVER) return;
+
+  seat.aiTakeover = true;
+  console.log(`AI took over ${seat.name} in room ${room.id}`);
+  commitState(room.id, setAIControl(state, seat.id, true));
+  scheduleAITurn(room.id);
+};
+
+// A dropped player keeps their seat for the grace period, then the AI plays it
+const startGracePeriod = (room, seat) => {
+  const state = games[room.id];
+  if (!state || state.phase === GamePhase.GAME_OVER || seat.aiTakeover) return;
+  if (state.players.find(p => p.id === seat.id)?.bankrupt) return;
+
+  clearGracePeriod(room, seat);
+  seat.graceEndsAt = Date.now() + GRACE_PERIOD_MS;
+  graceTimers[graceKey(room, seat)] = setTimeout(() => {
+    handSeatToAI(room, seat);
+    scheduleSnapshot(room.id);
+    io.to(room.id).emit("room_player_update", publicRoom(room));
+  }, GRACE_PERIOD_MS);
+};
+
+const removeRoom = (roomId) => {
+  const room = rooms[roomId];
+  if (!room) return;
+
+  [aiTimers, auctionTimers, snapshotTimers].forEach(timers => {
+    clearTimeout(timers[roomId]);
+    delete timers[roomId];
+  });
+  room.players.forEach(p => clearGracePeriod(room, p));
+  for (const s of io.sockets.sockets.values()) {
+    if (s.data.roomId === roomId) unbindSocket(s);
+  }
+  delete rooms[roomId];
+  delete games[roomId];
+  fs.promises.rm(path.join(SNAPSHOT_DIR, `${roomId}.json`), { force: true })
+    .catch(e => console.error(`Error removing snapshot for room ${roomId}:`, e));
+
+  console.log(`Room removed: ${room.name} (${roomId})`);
+  broadcastLobby();
+};
+
+// Follow-up whenever seats change: drop a waiting room with no humans left, make sure
+// someone connected is host, note when the room went empty, and tell everyone
+const seatsChanged = (room) => {
+  if (room.status === 'WAITING' && !room.players.some(p => !p.isAI)) return removeRoom(room.id);
+
+  migrateHost(room);
+  const connected = room.players.some(p => !p.isAI && p.socketId);
+  room.emptySince = connected ? null : room.emptySince ?? Date.now();
+
+  scheduleSnapshot(room.id);
+  io.to(room.id).emit("room_player_update", publicRoom(room));
+  broadcastLobby();
+};
+
+// Rooms nobody has been connected to for a while are cleaned up
+setInterval(() => {
+  const now = Date.now();
+  Object.values(rooms).forEach(room => {
+    if (room.emptySince && now - room.emptySince > EMPTY_ROOM_TTL_MS) removeRoom(room.id);
+  });
+}, ROOM_SWEEP_INTERVAL_MS);
+
+// Resume restored games where they left off. Nobody is connected yet, so every
+// human seat starts its grace period.
+loadSnapshots();
+Object.values(rooms).forEach(room => {
+  room.players.forEach(p => {
+    p.socketId = null;
+    if (!p.isAI) startGracePeriod(room, p);
+  });
+  room.emptySince = Date.now();
+});
+Object.keys(games).forEach(roomId => {
+  scheduleAuctionClose(roomId);
+  scheduleAITurn(roomId);
+});
 
 io.on("connection", (socket) => {
   console.log(`User connected: ${socket.id}`);
 
+  // Runs before every handler: drop floods and payloads that are missing or not plain objects
+  socket.data.eventTimes = [];
+  socket.use(([event, payload], next) => {
+    const now = Date.now();
+    socket.data.eventTimes = socket.data.eventTimes.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+    socket.data.eventTimes.push(now);
+    if (socket.data.eventTimes.length > RATE_LIMIT_MAX_EVENTS) {
+      return reject(socket, event, 'RATE_LIMITED', '操作太频繁，请稍后再试');
+    }
+    if (!isObject(payload) && !(payload === undefined && OPTIONAL_PAYLOAD_EVENTS.includes(event))) {
+      return reject(socket, event, 'INVALID_PAYLOAD', '请求格式错误');
+    }
+    next();
+  });
+
   // Get Room List
-  socket.on("get_rooms", () => {
-    socket.emit("rooms_list_update", Object.values(rooms));
+  socket.on("get_rooms", (filter) => {
+    socket.data.lobbyFilter = parseLobbyFilter(filter);
+    socket.emit("rooms_list_update", lobbyRooms(socket.data.lobbyFilter));
   });
 
   // Create Room
-  socket.on("create_room", ({ roomName, hostName, hostId }) => {
+  socket.on("create_room", ({ roomName, hostName, hostId, isPrivate, password }) => {
+    const name = cleanName(roomName);
+    hostName = cleanName(hostName);
+    if (!name || !hostName || !isValidId(hostId)) {
+      return reject(socket, "create_room", 'INVALID_PAYLOAD', '房间名或昵称无效');
+    }
+    if (socket.data.roomId) return reject(socket, "create_room", 'ALREADY_SEATED', '你已经在一个房间里了');
+    if (password !== undefined && (typeof password !== "string" || password.length > PASSWORD_MAX_LENGTH)) {
+      return reject(socket, "create_room", 'INVALID_PAYLOAD', `密码最长 ${PASSWORD_MAX_LENGTH} 个字符`);
+    }
+
     try {
-        const roomId = Math.random().toString(36).substring(2, 9);
+        const roomId = createRoomId();
         const newRoom = {
           id: roomId,
-          name: roomName,
+          name,
           hostId: hostId, 
           socketHostId: socket.id,
-          players: [{ id: hostId, name: hostName, isAI: false, isHost: true, socketId: socket.id }],
+          players: [{ id: hostId, name: hostName, isAI: false, isHost: true, socketId: socket.id, token: randomUUID() }],
           status: 'WAITING',
-          maxPlayers: 4,
-          createdAt: Date.now()
+          maxPlayers: DEFAULT_ROOM_PLAYERS,
+          rules: DEFAULT_RULES,
+          board: DEFAULT_BOARD,
+          seed: null,
+          createdAt: Date.now(),
+          emptySince: null,
+          isPrivate: !!isPrivate,
+          hasPassword: !!password,
+          passwordHash: password ? hashPassword(password) : null
         };
         rooms[roomId] = newRoom;
-        socket.join(roomId);
+        bindSocket(socket, roomId, hostId);
+        scheduleSnapshot(roomId);
         
-        console.log(`Room created: ${roomName} (${roomId}) by ${hostName}`);
+        console.log(`Room created: ${name} (${roomId}) by ${hostName}${newRoom.isPrivate ? ' [private]' : ''}`);
         
-        io.emit("rooms_list_update", Object.values(rooms));
-        socket.emit("room_joined", { roomId, room: newRoom });
+        broadcastLobby();
+        socket.emit("room_joined", { roomId, room: publicRoom(newRoom), token: newRoom.players[0].token });
     } catch (e) {
         console.error("Error creating room:", e);
     }
   });
 
   // Join Room
-  socket.on("join_room", ({ roomId, user }) => {
+  socket.on("join_room", ({ roomId, user, password }) => {
     const room = rooms[roomId];
-    if (room && room.status === 'WAITING' && room.players.length < room.maxPlayers) {
-      const newPlayer = { ...user, isAI: false, isHost: false, socketId: socket.id };
-      room.players.push(newPlayer);
-      socket.join(roomId);
-      
-      console.log(`User ${user.name} joined room ${roomId}`);
+    const name = cleanName(user?.name);
+    if (!room) return reject(socket, "join_room", 'ROOM_NOT_FOUND', '房间不存在');
+    if (!name || !isValidId(user.id)) return reject(socket, "join_room", 'INVALID_PAYLOAD', '昵称无效');
+    if (socket.data.roomId) return reject(socket, "join_room", 'ALREADY_SEATED', '你已经在一个房间里了');
 
-      io.emit("rooms_list_update", Object.values(rooms));
-      io.to(roomId).emit("room_player_update", room);
-      socket.emit("room_joined", { roomId, room });
+    // Returning players go through rejoin_room with their token
+    if (room.players.some(p => p.id === user.id)) return reject(socket, "join_room", 'ALREADY_SEATED', '你已经在这个房间里了');
+    if (room.status !== 'WAITING') return reject(socket, "join_room", 'GAME_IN_PROGRESS', '游戏已经开始');
+    if (room.players.length >= room.maxPlayers) return reject(socket, "join_room", 'ROOM_FULL', '房间已满');
+    if (room.passwordHash && !checkPassword(password, room.passwordHash)) {
+      return reject(socket, "join_room", password ? 'WRONG_PASSWORD' : 'PASSWORD_REQUIRED', password ? '密码错误' : '这个房间需要密码', { roomId });
+    }
+
+    const newPlayer = { id: user.id, name, isAI: false, isHost: false, socketId: socket.id, token: randomUUID() };
+    room.players.push(newPlayer);
+    bindSocket(socket, roomId, newPlayer.id);
+
+    console.log(`User ${name} joined room ${roomId}`);
+
+    seatsChanged(room);
+    socket.emit("room_joined", { roomId, room: publicRoom(room), token: newPlayer.token });
+  });
+
+  // Rejoin Room - a player on a new socket (reconnect, refresh, server restart) reclaims their seat
+  socket.on("rejoin_room", ({ roomId, playerId, token }) => {
+    const room = rooms[roomId];
+    const seat = room?.players.find(p => p.id === playerId && !p.isAI);
+    if (!seat || typeof token !== "string" || seat.token !== token) {
+      socket.emit("rejoin_failed", { roomId });
+      return;
+    }
+    if (socket.data.roomId && socket.data.roomId !== roomId) {
+      return reject(socket, "rejoin_room", 'ALREADY_SEATED', '你已经在另一个房间里了');
+    }
+
+    seat.socketId = socket.id;
+    clearGracePeriod(room, seat);
+    if (room.hostId === seat.id) room.socketHostId = socket.id;
+    bindSocket(socket, roomId, seat.id);
+
+    console.log(`User ${seat.name} rejoined room ${roomId}`);
+
+    // Also gives a room left without a connected host its host back
+    seatsChanged(room);
+    socket.emit("room_joined", { roomId, room: publicRoom(room), token });
+    if (!games[roomId]) return;
+
+    socket.emit("game_started", games[roomId]);
+    if (seat.aiTakeover) {
+      seat.aiTakeover = false;
+      commitState(roomId, setAIControl(games[roomId], seat.id, false));
     }
   });
 
   // Host Adds AI
   socket.on("add_ai", ({ roomId, aiPlayer }) => {
     const room = rooms[roomId];
-    if (room && room.socketHostId === socket.id && room.players.length < room.maxPlayers) {
-        room.players.push(aiPlayer);
-        io.to(roomId).emit("room_player_update", room);
-        io.emit("rooms_list_update", Object.values(rooms));
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "add_ai", 'NOT_HOST', '只有房主可以添加电脑');
+    const name = cleanName(aiPlayer?.name);
+    if (!name || !isValidId(aiPlayer.id) || room.players.some(p => p.id === aiPlayer.id)) {
+      return reject(socket, "add_ai", 'INVALID_PAYLOAD', '电脑玩家信息无效');
+    }
+    if (room.status === 'WAITING' && room.players.length < room.maxPlayers) {
+        room.players.push({ id: aiPlayer.id, name, isAI: true, isHost: false, aiProfile: sanitizeAIProfile(aiPlayer.aiProfile) });
+        seatsChanged(room);
     }
   });
 
-  // Start Game
-  socket.on("start_game", ({ roomId, initialGameState }) => {
-    if (rooms[roomId] && rooms[roomId].socketHostId === socket.id) {
-      rooms[roomId].status = 'PLAYING';
-      console.log(`Game started in room ${roomId}`);
-      io.emit("rooms_list_update", Object.values(rooms));
-      io.to(roomId).emit("game_started", initialGameState);
+  // Host Removes AI
+  socket.on("remove_ai", ({ roomId, playerId }) => {
+    const room = rooms[roomId];
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "remove_ai", 'NOT_HOST', '只有房主可以移除电脑');
+    if (room.status !== 'WAITING') return reject(socket, "remove_ai", 'GAME_IN_PROGRESS', '游戏已经开始');
+    if (!room.players.some(p => p.id === playerId && p.isAI)) return reject(socket, "remove_ai", 'PLAYER_NOT_FOUND', '找不到这个电脑玩家');
+
+    room.players = room.players.filter(p => p.id !== playerId);
+    seatsChanged(room);
+  });
+
+  // Host Picks an AI Seat's Difficulty and Personality
+  socket.on("update_ai_profile", ({ roomId, playerId, aiProfile }) => {
+    const room = rooms[roomId];
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "update_ai_profile", 'NOT_HOST', '只有房主可以设置电脑');
+    if (room.status !== 'WAITING') return reject(socket, "update_ai_profile", 'GAME_IN_PROGRESS', '游戏已经开始');
+    const seat = room.players.find(p => p.id === playerId && p.isAI);
+    if (!seat) return reject(socket, "update_ai_profile", 'PLAYER_NOT_FOUND', '找不到这个电脑玩家');
+
+    seat.aiProfile = sanitizeAIProfile(aiProfile, seat.aiProfile);
+    seatsChanged(room);
+  });
+
+  // Host Kicks a Player - before the game they lose the seat; mid-game the AI keeps playing it
+  socket.on("kick_player", ({ roomId, playerId }) => {
+    const room = rooms[roomId];
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "kick_player", 'NOT_HOST', '只有房主可以踢人');
+    const target = room.players.find(p => p.id === playerId && !p.isAI);
+    if (!target) return reject(socket, "kick_player", 'PLAYER_NOT_FOUND', '找不到这个玩家');
+    if (target.id === room.hostId) return reject(socket, "kick_player", 'INVALID_PAYLOAD', '不能踢出自己');
+
+    const targetSocket = target.socketId ? io.sockets.sockets.get(target.socketId) : null;
+    if (room.status === 'WAITING') {
+      room.players = room.players.filter(p => p.id !== target.id);
+    } else {
+      target.socketId = null;
+      target.token = null; // No rejoining a seat you were kicked from
+      handSeatToAI(room, target);
+    }
+    console.log(`User ${target.name} was kicked from room ${roomId}`);
+
+    if (targetSocket) {
+      unbindSocket(targetSocket);
+      targetSocket.emit("kicked", { roomId });
     }
+    seatsChanged(room);
   });
 
-  // Host Syncs Game State
-  socket.on("update_game_state", ({ roomId, state }) => {
-    // Broadcast to everyone else in the room
-    socket.to(roomId).emit("game_state_sync", state);
+  // Leave Room - before the game the seat is freed; mid-game the AI takes it over
+  socket.on("leave_room", ({ roomId }) => {
+    const room = rooms[roomId];
+    const seat = seatOf(socket, roomId);
+    if (!seat) return reject(socket, "leave_room", 'NOT_IN_ROOM', '你不在这个房间里');
+
+    unbindSocket(socket);
+    if (room.status === 'WAITING') {
+      room.players = room.players.filter(p => p.id !== seat.id);
+    } else {
+      seat.socketId = null;
+      handSeatToAI(room, seat);
+    }
+    console.log(`User ${seat.name} left room ${roomId}`);
+
+    socket.emit("room_left", { roomId });
+    seatsChanged(room);
   });
 
-  // Client Sends Action to Host
-  socket.on("client_action", ({ roomId, action }) => {
+  // Host Closes Room - everyone goes back to the lobby
+  socket.on("close_room", ({ roomId }) => {
     const room = rooms[roomId];
-    if (room) {
-      // Forward the action to the Host's socket ID
-      io.to(room.socketHostId).emit("receive_action", action);
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "close_room", 'NOT_HOST', '只有房主可以解散房间');
+
+    io.to(roomId).emit("room_closed", { roomId });
+    removeRoom(roomId);
+  });
+
+  // Host Changes Room Settings
+  socket.on("update_room_settings", ({ roomId, settings }) => {
+    const room = rooms[roomId];
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "update_room_settings", 'NOT_HOST', '只有房主可以修改设置');
+    if (room.status !== 'WAITING') return reject(socket, "update_room_settings", 'GAME_IN_PROGRESS', '游戏已经开始');
+    if (isObject(settings)) {
+        if (settings.rules) room.rules = sanitizeRules(settings.rules, room.rules);
+        if ('seed' in settings) room.seed = parseSeed(settings.seed);
+        if ('maxPlayers' in settings) {
+          const maxPlayers = Math.round(Number(settings.maxPlayers));
+          if (maxPlayers >= Math.max(MIN_ROOM_PLAYERS, room.players.length) && maxPlayers <= MAX_ROOM_PLAYERS) room.maxPlayers = maxPlayers;
+          else reject(socket, "update_room_settings", 'INVALID_SETTINGS', `人数上限须在 ${Math.max(MIN_ROOM_PLAYERS, room.players.length)} 到 ${MAX_ROOM_PLAYERS} 之间`);
+        }
+        if (settings.board) {
+          const { board, errors } = validateBoard(settings.board);
+          if (board) room.board = board;
+          else reject(socket, "update_room_settings", 'INVALID_BOARD', errors.join('；'));
+        }
+        seatsChanged(room);
     }
   });
 
+  // Start Game
+  socket.on("start_game", ({ roomId }) => {
+    const room = rooms[roomId];
+    if (!room || room.socketHostId !== socket.id) return reject(socket, "start_game", 'NOT_HOST', '只有房主可以开始游戏');
+    if (room.players.length < MIN_ROOM_PLAYERS) return reject(socket, "start_game", 'NOT_ENOUGH_PLAYERS', `至少需要 ${MIN_ROOM_PLAYERS} 名玩家`);
+    if (room.status === 'WAITING') {
+      room.status = 'PLAYING';
+      games[roomId] = createInitialState(room.players, roomId, room.rules, room.board, room.seed ?? undefined);
+      console.log(`Game started in room ${roomId}`);
+      scheduleSnapshot(roomId);
+      broadcastLobby();
+      io.to(roomId).emit("game_started", games[roomId]);
+      scheduleAITurn(roomId);
+    }
+  });
+
+  // Client Sends Action - checked against the sender's seat, then applied and synced to the room
+  socket.on("client_action", ({ roomId, action }) => {
+    const fail = (reason, message) => reject(socket, "client_action", reason, message, { action: isObject(action) ? action : null });
+
+    const seat = seatOf(socket, roomId);
+    if (!seat) return fail('NOT_IN_ROOM', '你不在这个房间里');
+    if (!games[roomId] || rooms[roomId].status !== 'PLAYING') return fail('GAME_NOT_RUNNING', '游戏尚未开始');
+    if (!isValidAction(action)) return fail('INVALID_ACTION', '无效的操作');
+    if (action.playerId !== seat.id) return fail('WRONG_PLAYER', '不能替其他玩家操作');
+    if (!applyAction(roomId, action)) fail('NOT_ALLOWED', '现在不能执行这个操作');
+  });
+
   // Handle Disconnect
   socket.on("disconnect", () => {
     console.log(`User disconnected: ${socket.id}`);
-    // Cleanup logic could go here (e.g. remove empty rooms)
+
+    Object.values(rooms).forEach(room => {
+      const seat = room.players.find(p => p.socketId === socket.id);
+      if (!seat) return;
+
+      seat.socketId = null;
+      if (room.status === 'PLAYING') startGracePeriod(room, seat);
+      seatsChanged(room);
+    });
   });
 });
 
@@ -0,0 +1,147 @@
+import { AIDifficulty, AIPersonality, AIProfile, Player } from "../types";
+
+// AI 难度与性格 (AI Difficulty & Personality)
+// 房主可以为每个电脑座位单独选择难度和性格，两者共同决定规则型 AI 使用的各项阈值：
+// 性格决定 AI 想要什么 (买哪类地、是否急着盖房、留多少现金)，难度决定它算得有多准。
+
+export const AI_DIFFICULTIES: AIDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+export const AI_PERSONALITIES: AIPersonality[] = ['BALANCED', 'BUILDER', 'SAVER', 'COLLECTOR'];
+
+export const DEFAULT_AI_PROFILE: AIProfile = { difficulty: 'NORMAL', personality: 'BALANCED' };
+
+export interface AIParams {
+  // 买地：买完后至少保留的现金
+  buyReserve: number;
+  hotAreaReserve: number; // 橙色/红色街区
+  stationReserve: number;
+  utilityReserve: number;
+  completeSetReserve: number; // 买下就能凑齐街区时
+  stretchForSet: boolean; // 为凑齐街区可以低于保留金购买，现金不够时抵押其他地块
+
+  // 竞拍：最高出价相对地价的倍数
+  setPremium: number;
+  hotAreaPremium: number;
+  stationPremium: number; // 车站和公用事业
+
+  // 盖房
+  buildReserve: number; // 盖房或抢房后至少保留的现金
+  maxBuildLevel: number; // 最多盖到几级 (5 = 酒店)
+  mortgageToBuild: boolean; // 抵押零散地块来筹集盖房的钱
+  rentAware: boolean; // 保留金不低于下一次掷骰可能付的最高租金
+
+  bailThreshold: number; // 现金不低于此值才交保释金出狱
+  waitsInJail: boolean; // 后期对手的地产危险时宁可留在狱中
+  unmortgageReserve: number; // 赎回抵押后仍需保留的现金
+
+  // 用落点概率估算期望租金和破产风险，取代上面固定的保留金
+  expectedValue: boolean;
+
+  // 交易估值
+  tradeMargin: number; // 收到的价值至少是付出的几倍才接受
+  tradeCashReserve: number;
+  monopolyWeight: number; // 垄断一个街区的额外价值，按整个街区地价的比例估算
+  stationValueFactor: number; // 车站和公用事业按地价的几倍估值
+}
+
+// 普通难度、均衡性格，也是托管掉线玩家时使用的参数
+const BASE_PARAMS: AIParams = {
+  buyReserve: 300,
+  hotAreaReserve: 150,
+  stationReserve: 200,
+  utilityReserve: 300,
+  completeSetReserve: 50,
+  stretchForSet: true,
+  setPremium: 1.5,
+  hotAreaPremium: 1.2,
+  stationPremium: 1.0,
+  buildReserve: 200,
+  maxBuildLevel: 5,
+  mortgageToBuild: false,
+  rentAware: true,
+  bailThreshold: 500,
+  waitsInJail: true,
+  unmortgageReserve: 500,
+  expectedValue: false,
+  tradeMargin: 1.1,
+  tradeCashReserve: 100,
+  monopolyWeight: 0.5,
+  stationValueFactor: 1.0
+};
+
+const PERSONALITY_PARAMS: Record<AIPersonality, Partial<AIParams>> = {
+  BALANCED: {},
+  // 激进建造者：一心凑街区盖房，现金压得很低，车站和公用事业兴趣不大
+  BUILDER: {
+    buyReserve: 250,
+    stationReserve: 300,
+    utilityReserve: 400,
+    completeSetReserve: 0,
+    setPremium: 1.8,
+    buildReserve: 50,
+    mortgageToBuild: true,
+    unmortgageReserve: 300,
+    monopolyWeight: 0.8
+  },
+  // 谨慎储蓄者：只在现金充足时出手，房子盖到三栋为止，宁可多坐几回合牢
+  SAVER: {
+    buyReserve: 500,
+    hotAreaReserve: 350,
+    stationReserve: 350,
+    utilityReserve: 500,
+    completeSetReserve: 200,
+    stretchForSet: false,
+    setPremium: 1.2,
+    hotAreaPremium: 1.0,
+    buildReserve: 600,
+    maxBuildLevel: 3,
+    bailThreshold: 1000,
+    unmortgageReserve: 400,
+    tradeCashReserve: 400
+  },
+  // 车站/公用事业收藏家：见到就买，竞拍和交易都肯多出价
+  COLLECTOR: {
+    stationReserve: 0,
+    utilityReserve: 50,
+    stationPremium: 1.6,
+    stationValueFactor: 1.5
+  }
+};
+
+const DIFFICULTY_ADJUSTMENTS: Record<AIDifficulty, (params: AIParams) => AIParams> = {
+  // 简单：看不出垄断的价值，不会为街区冒险，不看对手的租金，交易时容易吃亏
+  EASY: params => ({
+    ...params,
+    stretchForSet: false,
+    mortgageToBuild: false,
+    rentAware: false,
+    waitsInJail: false,
+    setPremium: 1.0,
+    hotAreaPremium: 1.0,
+    maxBuildLevel: Math.min(params.maxBuildLevel, 3),
+    tradeMargin: params.tradeMargin - 0.2,
+    monopolyWeight: params.monopolyWeight * 0.4
+  }),
+  NORMAL: params => params,
+  // 困难：按期望租金和破产风险决定买地、盖房和抵押，更看重垄断，交易时要求更高的回报
+  HARD: params => ({
+    ...params,
+    expectedValue: true,
+    setPremium: params.setPremium + 0.3,
+    tradeMargin: params.tradeMargin + 0.15,
+    monopolyWeight: params.monopolyWeight * 1.5
+  })
+};
+
+export const getAIParams = (player: Player): AIParams => {
+  const { difficulty, personality } = player.aiProfile ?? DEFAULT_AI_PROFILE;
+  return DIFFICULTY_ADJUSTMENTS[difficulty]({ ...BASE_PARAMS, ...PERSONALITY_PARAMS[personality] });
+};
+
+// 房间设置来自客户端，不认识的取值一律保留原值
+export const sanitizeAIProfile = (input: unknown, base: AIProfile = DEFAULT_AI_PROFILE): AIProfile => {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  return {
+    difficulty: AI_DIFFICULTIES.includes(raw.difficulty as AIDifficulty) ? raw.difficulty as AIDifficulty : base.difficulty,
+    personality: AI_PERSONALITIES.includes(raw.personality as AIPersonality) ? raw.personality as AIPersonality : base.personality
+  };
+};
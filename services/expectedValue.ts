@@ -0,0 +1,58 @@
+import { GameState, Player, Tile, TileType } from "../types";
+import { calculateRent } from "../engine/helpers";
+import { getLandingProbabilities, getRollDistribution } from "../engine/probability";
+
+// 期望收益与破产风险 (Expected Value & Risk of Ruin)
+// 用 engine/probability.ts 算出的落点概率给地块估价：
+// 期望租金 = 对手每掷一次骰子停在这里的概率 × 租金；破产风险 = 下一次掷骰要付的钱超过手头现金的概率。
+
+const AVERAGE_DICE = 7; // 公用事业的租金按点数计算，估值时取平均点数
+const HOT_AREA_SHARE = 0.25; // 落点概率排在前四分之一的地产算热门地段
+
+// 对手每掷一次骰子，这块地在 level 级时给地主带来的期望租金
+export const expectedRent = (gameState: GameState, tile: Tile, ownerId = tile.ownerId, level = tile.houseCount || 0) => {
+  if (!ownerId) return 0;
+  const landing = getLandingProbabilities(gameState)[tile.id];
+  return landing * calculateRent(gameState, { ...tile, ownerId, houseCount: level }, AVERAGE_DICE);
+};
+
+// 热门地段：按落点概率而不是固定的色组判断，自定义棋盘同样适用
+export const isHighTraffic = (gameState: GameState, tile: Tile) => {
+  const landing = getLandingProbabilities(gameState);
+  const ranked = gameState.tiles
+    .filter(t => t.type === TileType.PROPERTY)
+    .map(t => landing[t.id])
+    .sort((a, b) => b - a);
+  if (tile.type !== TileType.PROPERTY || ranked.length === 0) return false;
+  return landing[tile.id] >= ranked[Math.max(0, Math.ceil(ranked.length * HOT_AREA_SHARE) - 1)];
+};
+
+// 停在某一格要付的钱：对手的租金或税款
+const landingCost = (gameState: GameState, player: Player, tile: Tile) => {
+  if (tile.type === TileType.TAX) return tile.price || 100;
+  if (!tile.ownerId || tile.ownerId === player.id || tile.isMortgaged) return 0;
+  const owner = gameState.players.find(p => p.id === tile.ownerId);
+  if (!owner || owner.bankrupt || (owner.isInJail && gameState.rules.noRentInJail)) return 0;
+  return calculateRent(gameState, tile, AVERAGE_DICE);
+};
+
+// 下一次掷骰要付的钱及其概率，从高到低排列
+const nextRollCosts = (gameState: GameState, player: Player) =>
+  getRollDistribution(gameState, player.position)
+    .map((probability, id) => ({ cost: landingCost(gameState, player, gameState.tiles[id]), probability }))
+    .filter(c => c.cost > 0 && c.probability > 0)
+    .sort((a, b) => b.cost - a.cost);
+
+// 手头有 cash 时，下一次掷骰就付不起的概率
+export const ruinRisk = (gameState: GameState, player: Player, cash: number) =>
+  nextRollCosts(gameState, player).filter(c => c.cost > cash).reduce((sum, c) => sum + c.probability, 0);
+
+// 把下一次掷骰的破产风险压到 tolerance 以内，至少要留多少现金
+export const safeReserve = (gameState: GameState, player: Player, tolerance: number) => {
+  let tail = 0;
+  for (const { cost, probability } of nextRollCosts(gameState, player)) {
+    if (tail + probability > tolerance) return cost;
+    tail += probability;
+  }
+  return 0;
+};
@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createMockGemini } from '../scripts/mock-gemini.js';
+import { createGeminiProvider } from './geminiProvider';
+import { heuristicProvider } from './geminiService';
+import { createInitialState } from '../engine/gameEngine';
+import { AIProvider, GamePhase, GameState } from '../types';
+
+// 电脑玩家停在无主的地产上，等待买地决策
+const purchaseState = (): GameState => {
+    const state = createInitialState([
+        { id: 'ai', name: '电脑', isAI: true, isHost: false },
+        { id: 'human', name: '玩家', isAI: false, isHost: true }
+    ], 'test', undefined, undefined, 1);
+    return {
+        ...state,
+        phase: GamePhase.ACTION,
+        players: state.players.map(p => p.id === 'ai' ? { ...p, position: 1 } : p)
+    };
+};
+
+// 在空闲端口启动一个指定模式的 mock，用它做一次买地决策，并记录是否交给了本地 AI
+const decideWithMock = async (mode: string, timeoutMs = 2000) => {
+    const server = createMockGemini(mode);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    let fallbackCalls = 0;
+    const fallback: AIProvider = {
+        name: heuristicProvider.name,
+        decide: (gameState, player) => {
+            fallbackCalls++;
+            return heuristicProvider.decide(gameState, player);
+        }
+    };
+    const provider = createGeminiProvider({ apiKey: 'test', baseUrl: `http://127.0.0.1:${port}`, model: 'mock', timeoutMs }, fallback);
+
+    try {
+        const state = purchaseState();
+        const decision = await provider.decide(state, state.players[0]);
+        return { decision, fallbackCalls };
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+};
+
+test('模型返回的 BUY / PASS 直接采用', async () => {
+    const buy = await decideWithMock('buy');
+    assert.equal(buy.decision.action, 'BUY');
+    assert.equal(buy.fallbackCalls, 0);
+
+    const pass = await decideWithMock('pass');
+    assert.equal(pass.decision.action, 'PASS');
+    assert.equal(pass.fallbackCalls, 0);
+});
+
+for (const mode of ['invalid', 'error', 'slow']) {
+    test(`mock 处于 ${mode} 模式时改用本地 AI`, async () => {
+        const { decision, fallbackCalls } = await decideWithMock(mode, 200);
+        assert.equal(fallbackCalls, 1);
+
+        const state = purchaseState();
+        assert.deepEqual(decision, await heuristicProvider.decide(state, state.players[0]));
+    });
+}
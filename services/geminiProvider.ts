@@ -0,0 +1,134 @@
+import { GameState, Player, AIDecision, AIProvider, TileType, GamePhase } from "../types";
+
+// Gemini 决策提供者 (Gemini AI Provider)
+// 把当前局面压缩成一段简短的提示词，请 Gemini 按 JSON 格式返回 AIDecision。
+// 超时、网络错误或返回内容不合法时，一律交给本地规则型 AI 兜底，保证游戏不会卡住。
+
+export interface GeminiConfig {
+  apiKey: string;
+  baseUrl: string; // 可指向本地 mock 服务器做离线测试
+  model: string;
+  timeoutMs: number;
+}
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_TIMEOUT_MS = 8000;
+
+// 浏览器里只有 vite.config.ts 中 define 过的 process.env 字段可用，这里只读这几个
+export const readGeminiConfig = (): GeminiConfig | null => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return null;
+  return {
+    apiKey,
+    baseUrl: (process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    model: process.env.GEMINI_MODEL || DEFAULT_MODEL,
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+  };
+};
+
+// 目前只有买地决策交给模型，可选的动作也随之限定
+const PURCHASE_ACTIONS: AIDecision['action'][] = ['BUY', 'PASS', 'MORTGAGE'];
+
+const RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    action: { type: 'STRING', enum: PURCHASE_ACTIONS },
+    reasoning: { type: 'STRING' }
+  },
+  required: ['action', 'reasoning']
+};
+
+// 提示词只带决策需要的信息，控制 token 消耗
+export const buildPrompt = (gameState: GameState, player: Player) => {
+  const tile = gameState.tiles[player.position];
+  const nameOf = (id: string | null | undefined) => gameState.players.find(p => p.id === id)?.name ?? '无';
+  const groupTiles = gameState.tiles.filter(t => t.group === tile.group);
+  const myProperties = gameState.tiles
+    .filter(t => t.ownerId === player.id)
+    .map(t => `${t.name}(${t.group}${t.houseCount ? `,${t.houseCount}栋` : ''}${t.isMortgaged ? ',已抵押' : ''})`);
+  const opponents = gameState.players
+    .filter(p => p.id !== player.id && !p.bankrupt)
+    .map(p => `${p.name}: $${p.money}, ${p.properties.length} 块地`);
+
+  return [
+    '你在玩大富翁 (Monopoly)，请为玩家做买地决策。',
+    `玩家: ${player.name}，现金 $${player.money}`,
+    `当前地块: ${tile.name} (${tile.type}, 色组 ${tile.group}, 售价 $${tile.price ?? 0})`,
+    `同色组地块: ${groupTiles.map(t => `${t.name}→${nameOf(t.ownerId)}`).join('、')}`,
+    `我的地产: ${myProperties.join('、') || '无'}`,
+    `对手: ${opponents.join('；') || '无'}`,
+    '可选动作: BUY (买下)、PASS (放弃，地块进入拍卖)、MORTGAGE (现金不足时抵押其他地块再买)。',
+    '只返回 JSON: {"action": "...", "reasoning": "一句中文理由"}'
+  ].join('\n');
+};
+
+// 校验模型输出：格式正确且动作在当前局面下可行，否则返回 null
+export const parseDecision = (text: string, gameState: GameState, player: Player): AIDecision | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { action, reasoning } = raw as Record<string, unknown>;
+  if (!PURCHASE_ACTIONS.includes(action as AIDecision['action'])) return null;
+
+  const price = gameState.tiles[player.position].price ?? 0;
+  if (action === 'BUY' && player.money < price) return null;
+  if (action === 'MORTGAGE' && player.money >= price) return null;
+
+  return {
+    action: action as AIDecision['action'],
+    reasoning: typeof reasoning === 'string' && reasoning.trim() ? reasoning.trim() : 'Gemini 决策'
+  };
+};
+
+const requestDecision = async (config: GeminiConfig, prompt: string): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+  try {
+    const response = await fetch(`${config.baseUrl}/v1beta/models/${config.model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA, temperature: 0.2 }
+      }),
+      signal: controller.signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string') throw new Error('响应中没有文本内容');
+    return text;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const isPurchaseDecision = (gameState: GameState, player: Player) => {
+  const tile = gameState.tiles[player.position];
+  return gameState.phase === GamePhase.ACTION && !tile.ownerId &&
+    (tile.type === TileType.PROPERTY || tile.type === TileType.STATION || tile.type === TileType.UTILITY);
+};
+
+export const createGeminiProvider = (config: GeminiConfig, fallback: AIProvider): AIProvider => ({
+  name: 'gemini',
+  decide: async (gameState, player) => {
+    if (!isPurchaseDecision(gameState, player)) return fallback.decide(gameState, player);
+
+    try {
+      const text = await requestDecision(config, buildPrompt(gameState, player));
+      const decision = parseDecision(text, gameState, player);
+      if (decision) return decision;
+      console.warn('[gemini] 返回内容不合法，改用本地 AI:', text.slice(0, 200));
+    } catch (e) {
+      console.warn('[gemini] 请求失败，改用本地 AI:', e instanceof Error ? e.message : e);
+    }
+    return fallback.decide(gameState, player);
+  }
+});
@@ -1,15 +1,117 @@
-import { GameState, Player, Tile, AIDecision, TileType, ColorGroup } from "../types";
+import { GameState, Player, Tile, AIDecision, AIProvider, TileType, ColorGroup, GamePhase, NetworkAction, TradeOffer } from "../types";
+import {
+  getMortgageValue, getUnmortgageCost, groupHasBuildings, checkOwnsGroup, getSellError, getHouseSaleValue,
+  setBuildingLevel, getBuildError, updateTile, calculateRent
+} from "../engine/helpers";
+import { applyTrade, validateTrade } from "../engine/trade";
+import { HOUSE_SHORTAGE_LIMIT } from "../constants";
+import { createGeminiProvider, readGeminiConfig } from "./geminiProvider";
+import { getAIParams } from "./aiProfiles";
+import { expectedRent, isHighTraffic, ruinRisk, safeReserve } from "./expectedValue";
 
 // 本地规则型 AI (Heuristic AI)
 // 不需要调用外部 API，完全在本地计算，速度快且免费。
+// 各项阈值随玩家的难度和性格变化，见 aiProfiles.ts。
+// 困难 AI 不用固定的保留金，而是按期望租金和破产风险计算，见 expectedValue.ts。
 
-export const getAIDecision = async (gameState: GameState, player: Player): Promise<AIDecision> => {
+const JAIL_CARD_VALUE = 50;
+const RUIN_TOLERANCE = 0.05; // 困难 AI 能接受的下一次掷骰破产概率
+const SET_RUIN_TOLERANCE = 0.15; // 为凑齐街区愿意多冒的险
+
+// -------------------------
+// 抵押规划 (Mortgage Planning)
+// -------------------------
+// 挑选可抵押的地块来筹集 amount 资金。优先抵押不属于垄断街区、价值低的地块。
+// 返回要抵押的地块 ID 列表；如果全部抵押也凑不够则返回 null。
+export const planMortgages = (gameState: GameState, player: Player, amount: number, keepGroup?: ColorGroup): number[] | null => {
+  const candidates = gameState.tiles
+    .filter(t => t.ownerId === player.id && !t.isMortgaged && t.group !== keepGroup && !groupHasBuildings(t.group, gameState.tiles))
+    .sort((a, b) => {
+      // 困难 AI 先抵押每筹 $1 损失期望租金最少的地块 (垄断街区租金翻倍，自然排在后面)
+      if (getAIParams(player).expectedValue) {
+        return expectedRent(gameState, a) / getMortgageValue(a) - expectedRent(gameState, b) / getMortgageValue(b);
+      }
+      const aMonopoly = checkOwnsGroup(player.id, a.group, gameState.tiles) ? 1 : 0;
+      const bMonopoly = checkOwnsGroup(player.id, b.group, gameState.tiles) ? 1 : 0;
+      return aMonopoly - bMonopoly || getMortgageValue(a) - getMortgageValue(b);
+    });
+
+  const plan: number[] = [];
+  let raised = 0;
+  for (const tile of candidates) {
+    if (raised >= amount) break;
+    plan.push(tile.id);
+    raised += getMortgageValue(tile);
+  }
+  return raised >= amount ? plan : null;
+};
+
+// -------------------------
+// 出售房屋规划 (House Sales)
+// -------------------------
+// 按平均出售规则逐栋卖房，优先卖建造成本低的街区，凑够 amount 即停止。
+// 返回出售顺序 (同一地块可出现多次)、筹得的金额以及卖完后的局面。
+export const planHouseSales = (gameState: GameState, player: Player, amount: number) => {
+  let state = gameState;
+  const sales: number[] = [];
+  let raised = 0;
+
+  while (raised < amount) {
+    const next = state.tiles
+      .filter(t => getSellError(state, t, player.id) === null)
+      .sort((a, b) => (a.houseCost || 0) - (b.houseCost || 0))[0];
+    if (!next) break;
+
+    sales.push(next.id);
+    raised += getHouseSaleValue(next);
+    state = setBuildingLevel(state, next.id, (next.houseCount || 0) - 1);
+  }
+  return { sales, raised, state };
+};
+
+// -------------------------
+// 购买估值 (Purchase Valuation)
+// -------------------------
+// 买地和竞拍共用的估值：能否凑齐街区、是否热门地段、应保留多少现金
+export const evaluatePurchase = (gameState: GameState, player: Player, tile: Tile) => {
+  // 检查是否能凑齐同色系 (Monopoly!)
+  const groupTiles = gameState.tiles.filter(t => t.group === tile.group && t.group !== ColorGroup.NONE);
+  const ownedByMeInGroup = groupTiles.filter(t => t.ownerId === player.id);
+  // 如果买了这块，我就拥有整个街区了吗？(当前已拥有的 + 这块 === 总数)
+  const completesSet = (ownedByMeInGroup.length + 1) === groupTiles.length;
+
+  // 检查是否是热门地段 (按落点概率，例如标准棋盘上出狱后常停的橙色街区)
+  const isHotArea = isHighTraffic(gameState, tile);
+
+  // 设定保留金 (Reserve Cash)
+  // AI 应该保留一些现金以防止踩雷破产
+  const params = getAIParams(player);
+  if (params.expectedValue) {
+    return { completesSet, isHotArea, reserveCash: safeReserve(gameState, player, completesSet ? SET_RUIN_TOLERANCE : RUIN_TOLERANCE) };
+  }
+  let reserveCash = params.buyReserve;
+
+  // 如果能凑齐一套，或者是非常好的地段，愿意冒风险，降低保留金
+  if (completesSet) reserveCash = params.completeSetReserve;
+  else if (isHotArea) reserveCash = params.hotAreaReserve;
+  else if (tile.type === TileType.STATION) reserveCash = params.stationReserve; // 车站收益稳定
+  else if (tile.type === TileType.UTILITY) reserveCash = params.utilityReserve;
+
+  return { completesSet, isHotArea, reserveCash };
+};
+
+export const getHeuristicDecision = async (gameState: GameState, player: Player): Promise<AIDecision> => {
   const currentTile = gameState.tiles[player.position];
   const money = player.money;
 
   // 模拟一点“思考”延迟，让游戏节奏更自然
   // 注意：App.tsx 中已经有 1秒 的延迟，这里不需要额外太久的延迟
   
+  // 掷骰前：是否出狱
+  if (gameState.phase === GamePhase.ROLLING && player.isInJail) {
+    return decideJail(gameState, player);
+  }
+
   // -------------------------
   // 购买决策逻辑 (BUY vs PASS)
   // -------------------------
@@ -17,33 +119,18 @@ export const getAIDecision = async (gameState: GameState, player: Player): Promi
     // 确保是可购买的地块
     if (currentTile.type === TileType.PROPERTY || currentTile.type === TileType.STATION || currentTile.type === TileType.UTILITY) {
         const price = currentTile.price || 0;
+        const { completesSet, isHotArea, reserveCash } = evaluatePurchase(gameState, player, currentTile);
+        const { stretchForSet } = getAIParams(player);
 
-        // 1. 没钱肯定不买
+        // 1. 没钱肯定不买 —— 除非抵押其他地块就能凑齐垄断
         if (money < price) {
+            if (completesSet && stretchForSet && planMortgages(gameState, player, price - money, currentTile.group)) {
+                return { action: 'MORTGAGE', targetTileId: currentTile.id, reasoning: "抵押次要地产筹款，拿下这块地完成垄断。" };
+            }
             return { action: 'PASS', reasoning: "资金不足，无法购买。" };
         }
 
-        // 2. 计算策略价值
-        
-        // 检查是否能凑齐同色系 (Monopoly!)
-        const groupTiles = gameState.tiles.filter(t => t.group === currentTile.group && t.group !== ColorGroup.NONE);
-        const ownedByMeInGroup = groupTiles.filter(t => t.ownerId === player.id);
-        // 如果买了这块，我就拥有整个街区了吗？(当前已拥有的 + 这块 === 总数)
-        const completesSet = (ownedByMeInGroup.length + 1) === groupTiles.length;
-        
-        // 检查是否是热门地段 (例如橙色/红色街区，离监狱出来的位置近)
-        const isHotArea = currentTile.group === ColorGroup.ORANGE || currentTile.group === ColorGroup.RED;
-
-        // 3. 设定保留金 (Reserve Cash)
-        // AI 应该保留一些现金以防止踩雷破产
-        let reserveCash = 300; 
-        
-        // 如果能凑齐一套，或者是非常好的地段，愿意冒风险，降低保留金
-        if (completesSet) reserveCash = 50; 
-        else if (isHotArea) reserveCash = 150;
-        else if (currentTile.type === TileType.STATION) reserveCash = 200; // 车站收益稳定
-
-        // 4. 做出决定
+        // 2. 做出决定
         if (money >= price + reserveCash) {
             let reason = "资金充裕，投资地产以获取收益。";
             if (completesSet) reason = "战略购买！拿下此地块即可垄断该街区，收取双倍租金。";
@@ -53,10 +140,14 @@ export const getAIDecision = async (gameState: GameState, player: Player): Promi
             return { action: 'BUY', reasoning: reason };
         } else {
             // 如果钱不够保留金，但确实是很关键的地块(凑齐一套)，且买完不会立刻破产(剩 > 0)
-            if (completesSet && money > price) {
+            if (completesSet && stretchForSet && money > price) {
                  return { action: 'BUY', reasoning: "虽然资金紧张，但这块地对达成垄断至关重要，值得冒险。" };
             }
 
+            if (getAIParams(player).expectedValue) {
+                const risk = Math.round(ruinRisk(gameState, player, money - price) * 100);
+                return { action: 'PASS', reasoning: `买下后下一次掷骰有 ${risk}% 的概率付不起租金，暂不购买。` };
+            }
             return { 
                 action: 'PASS', 
                 reasoning: `保留现金以备不时之需 (当前 $${money}, 售价 $${price}, 目标保留 $${reserveCash})。` 
@@ -69,4 +160,399 @@ export const getAIDecision = async (gameState: GameState, player: Player): Promi
   // 默认回调 (例如处理一些未预料的状态)
   // -------------------------
   return { action: 'PASS', reasoning: "无操作" };
-};
\ No newline at end of file
+};
+
+// -------------------------
+// 决策提供者 (AI Providers)
+// -------------------------
+// 默认使用本地规则型 AI。设置 AI_PROVIDER=gemini 并提供 GEMINI_API_KEY 后改由 Gemini 决策，
+// 失败时自动回退到本地规则。
+export const heuristicProvider: AIProvider = { name: 'heuristic', decide: getHeuristicDecision };
+
+const createConfiguredProvider = (): AIProvider => {
+  if (process.env.AI_PROVIDER !== 'gemini') return heuristicProvider;
+
+  const config = readGeminiConfig();
+  if (!config) {
+    console.warn('AI_PROVIDER=gemini 但没有设置 GEMINI_API_KEY，使用本地 AI。');
+    return heuristicProvider;
+  }
+  return createGeminiProvider(config, heuristicProvider);
+};
+
+let activeProvider: AIProvider = createConfiguredProvider();
+
+export const getAIProvider = () => activeProvider;
+
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+export const getAIDecision = (gameState: GameState, player: Player): Promise<AIDecision> =>
+  activeProvider.decide(gameState, player);
+
+// -------------------------
+// 租金风险 (Rent Exposure)
+// -------------------------
+// 从 from 出发掷一次骰子 (2-12 步) 可能付出的最高租金
+export const getRentExposure = (gameState: GameState, player: Player, from = player.position) => {
+  let worst = 0;
+  for (let steps = 2; steps <= 12; steps++) {
+    const tile = gameState.tiles[(from + steps) % gameState.tiles.length];
+    if (!tile.ownerId || tile.ownerId === player.id || tile.isMortgaged) continue;
+    const owner = gameState.players.find(p => p.id === tile.ownerId);
+    if (!owner || owner.bankrupt || (owner.isInJail && gameState.rules.noRentInJail)) continue;
+    worst = Math.max(worst, calculateRent(gameState, tile, steps));
+  }
+  return worst;
+};
+
+// -------------------------
+// 出狱决策 (Jail)
+// -------------------------
+// 前期空地多，要尽快出狱去买地；后期对手盖了房，留在狱中反而安全，还能照样收租。
+// 出狱卡免费，要出狱时先用卡；狱期已满时不出狱也得交保释金，有卡就用卡。
+const OPEN_MARKET_SHARE = 0.3; // 未售出的地产不少于这个比例时还算前期
+
+export const decideJail = (gameState: GameState, player: Player): AIDecision => {
+  const params = getAIParams(player);
+  const hasCard = player.getOutOfJailCards > 0;
+
+  if (player.jailTurns >= gameState.rules.maxJailTurns - 1) {
+    return hasCard
+      ? { action: 'USE_JAIL_CARD', reasoning: "狱期已满，用出狱卡免交保释金。" }
+      : { action: 'PASS', reasoning: "狱期已满，掷不出双倍就交保释金出狱。" };
+  }
+
+  const forSale = gameState.tiles.filter(t => t.type === TileType.PROPERTY || t.type === TileType.STATION || t.type === TileType.UTILITY);
+  const openShare = forSale.filter(t => !t.ownerId).length / Math.max(1, forSale.length);
+  const exposure = getRentExposure(gameState, player);
+  if (params.waitsInJail && !gameState.rules.noRentInJail && openShare < OPEN_MARKET_SHARE && exposure > gameState.rules.bailAmount * 2) {
+    return { action: 'PASS', reasoning: `对手的地产很危险 (最高租金 $${exposure})，留在狱中更安全。` };
+  }
+
+  if (hasCard) return { action: 'USE_JAIL_CARD', reasoning: "使用出狱卡，免费出狱。" };
+  if (player.money >= params.bailThreshold) return { action: 'PAY_JAIL', reasoning: "资金充足，交保释金尽快出狱。" };
+  return { action: 'PASS', reasoning: "保留现金，争取掷出双倍越狱。" };
+};
+
+// -------------------------
+// 盖房规划 (Building)
+// -------------------------
+// 按平均建造规则逐栋盖房，优先盖造价高的街区，花费不超过 budget，每块地最多盖到 maxLevel。
+// 困难 AI 改为优先盖每花 $1 期望租金涨得最多的房子。
+// 房屋紧缺时不主动盖房，否则每次都会触发抢房拍卖。
+export const planBuilds = (gameState: GameState, player: Player, budget: number, maxLevel: number): number[] => {
+  let state = gameState;
+  const builds: number[] = [];
+  let spent = 0;
+  const value = getAIParams(player).expectedValue
+    ? (t: Tile) => (expectedRent(state, t, player.id, (t.houseCount || 0) + 1) - expectedRent(state, t)) / (t.houseCost || 1)
+    : (t: Tile) => t.houseCost || 0;
+
+  while (state.houseSupply > HOUSE_SHORTAGE_LIMIT) {
+    const next = state.tiles
+      .filter(t => (t.houseCount || 0) < maxLevel && spent + (t.houseCost || 0) <= budget && getBuildError(state, t, player.id) === null)
+      .sort((a, b) => value(b) - value(a))[0];
+    if (!next) break;
+
+    builds.push(next.id);
+    spent += next.houseCost || 0;
+    state = setBuildingLevel(state, next.id, (next.houseCount || 0) + 1);
+  }
+  return builds;
+};
+
+// -------------------------
+// 资金管理 (Cash Management)
+// -------------------------
+// 回合结束前整理资金：先赎回垄断街区里抵押的地块，才能在上面盖房；
+// 允许的话抵押零散地块凑钱；然后按保留金盖房，最后用闲钱赎回其余抵押的地块。
+// 保留金取性格设定的值和下一次掷骰可能付的最高租金中较大者；
+// 困难 AI 只留够把下一次掷骰的破产风险压到 RUIN_TOLERANCE 以内的钱。
+export const planCashManagement = (gameState: GameState, player: Player): AIDecision[] => {
+  const params = getAIParams(player);
+  const reserve = params.expectedValue
+    ? safeReserve(gameState, player, RUIN_TOLERANCE)
+    : Math.max(params.buildReserve, params.rentAware ? getRentExposure(gameState, player) : 0);
+  const decisions: AIDecision[] = [];
+  let state = gameState;
+  let money = player.money;
+
+  const mine = () => state.tiles.filter(t => t.ownerId === player.id);
+  const ownsSet = (tile: Tile) => checkOwnsGroup(player.id, tile.group, state.tiles);
+  const unmortgage = (tile: Tile, minCash: number, reasoning: string) => {
+    const cost = getUnmortgageCost(tile);
+    if (money - cost < minCash) return;
+    money -= cost;
+    state = updateTile(state, tile.id, { isMortgaged: false });
+    decisions.push({ action: 'UNMORTGAGE', targetTileId: tile.id, reasoning });
+  };
+
+  mine().filter(t => t.isMortgaged && ownsSet(t))
+    .forEach(tile => unmortgage(tile, reserve, `赎回 ${tile.name}，好在街区上盖房。`));
+
+  const mortgagedNow: number[] = [];
+  if (params.mortgageToBuild) {
+    const spare = mine()
+      .filter(t => !t.isMortgaged && !ownsSet(t) && !groupHasBuildings(t.group, state.tiles))
+      .sort((a, b) => getMortgageValue(a) - getMortgageValue(b));
+    const spareValue = spare.reduce((sum, t) => sum + getMortgageValue(t), 0);
+    const wanted = planBuilds(state, player, money - reserve + spareValue, params.maxBuildLevel)
+      .reduce((sum, id) => sum + (state.tiles[id].houseCost || 0), 0);
+
+    for (const tile of wanted > 0 ? spare : []) {
+      if (money - reserve >= wanted) break;
+      money += getMortgageValue(tile);
+      state = updateTile(state, tile.id, { isMortgaged: true });
+      mortgagedNow.push(tile.id);
+      decisions.push({ action: 'MORTGAGE', targetTileId: tile.id, reasoning: `抵押零散的 ${tile.name}，筹钱盖房。` });
+    }
+  }
+
+  planBuilds(state, player, money - reserve, params.maxBuildLevel).forEach(tileId => {
+    const tile = state.tiles[tileId];
+    money -= tile.houseCost || 0;
+    state = setBuildingLevel(state, tileId, (tile.houseCount || 0) + 1);
+    decisions.push({ action: 'BUILD', targetTileId: tileId, reasoning: `在 ${tile.name} 上盖房，保留现金 $${reserve}。` });
+  });
+
+  // 还在盖房的建造者不赎回零散地块，免得下回合又要抵押
+  const stillBuilding = params.mortgageToBuild && planBuilds(state, player, Infinity, params.maxBuildLevel).length > 0;
+  if (!stillBuilding) {
+    mine().filter(t => t.isMortgaged && !mortgagedNow.includes(t.id))
+      .forEach(tile => unmortgage(tile, params.expectedValue ? reserve : Math.max(reserve, params.unmortgageReserve), `手头宽裕，赎回 ${tile.name}。`));
+  }
+
+  return decisions;
+};
+
+// -------------------------
+// 回合驱动 (AI Turn Driver)
+// -------------------------
+// 按阶段排出 AI 这一步要做的决定：掷骰前是否出狱，落地后是否买地，回合结束前整理资金和盖房。
+export const planTurn = async (gameState: GameState, player: Player): Promise<AIDecision[]> => {
+  switch (gameState.phase) {
+    case GamePhase.ROLLING:
+      return player.isInJail ? [await getAIDecision(gameState, player)] : [];
+    case GamePhase.ACTION:
+      return [await getAIDecision(gameState, player)];
+    case GamePhase.END_TURN:
+      return planCashManagement(gameState, player);
+    default:
+      return [];
+  }
+};
+
+// 把资金管理和出狱决定翻译成引擎动作；买地决定在 getAIActions 里单独处理
+const toAction = (player: Player, decision: AIDecision): NetworkAction | null => {
+  const payload = { tileId: decision.targetTileId };
+  switch (decision.action) {
+    case 'PAY_JAIL': return { type: 'PAY_BAIL', playerId: player.id };
+    case 'USE_JAIL_CARD': return { type: 'USE_JAIL_CARD', playerId: player.id };
+    case 'BUILD': return { type: 'UPGRADE', playerId: player.id, payload };
+    case 'MORTGAGE': return { type: 'MORTGAGE', playerId: player.id, payload };
+    case 'UNMORTGAGE': return { type: 'UNMORTGAGE', playerId: player.id, payload };
+    default: return null;
+  }
+};
+
+// 根据当前阶段返回 AI 接下来要执行的动作序列。
+// 客户端单机模式和服务器共用这一套逻辑。
+export const getAIActions = async (gameState: GameState, player: Player): Promise<NetworkAction[]> => {
+  const decisions = await planTurn(gameState, player);
+  const planned = decisions.map(d => toAction(player, d)).filter((a): a is NetworkAction => a !== null);
+
+  if (gameState.phase === GamePhase.ROLLING) {
+    return [...planned, { type: 'ROLL', playerId: player.id }];
+  }
+
+  if (gameState.phase === GamePhase.ACTION) {
+    const decision = decisions[0];
+    if (decision.action === 'BUY') {
+      return [{ type: 'BUY', playerId: player.id }];
+    }
+    if (decision.action === 'MORTGAGE') {
+      const tile = gameState.tiles[player.position];
+      const plan = planMortgages(gameState, player, (tile.price || 0) - player.money, tile.group);
+      if (plan) {
+        return [
+          ...plan.map((tileId): NetworkAction => ({ type: 'MORTGAGE', playerId: player.id, payload: { tileId } })),
+          { type: 'BUY', playerId: player.id }
+        ];
+      }
+    }
+    return [{ type: 'PASS', playerId: player.id }];
+  }
+
+  if (gameState.phase === GamePhase.END_TURN) {
+    return [...planned, { type: 'END_TURN', playerId: player.id }];
+  }
+
+  return [];
+};
+
+// -------------------------
+// 交易评估 (Trade Evaluation)
+// -------------------------
+
+// 一块地的基础价值：抵押中的地块要扣掉赎回成本
+const baseTileValue = (tile: Tile, stationValueFactor: number) => {
+  const isStation = tile.type === TileType.STATION || tile.type === TileType.UTILITY;
+  const price = (tile.price || 0) * (isStation ? stationValueFactor : 1);
+  return tile.isMortgaged ? price - getUnmortgageCost(tile) : price;
+};
+
+// 垄断一个街区的额外价值，按整个街区地价的一定比例估算
+const monopolyBonus = (gameState: GameState, group: ColorGroup, weight: number) =>
+  gameState.tiles.filter(t => t.group === group).reduce((sum, t) => sum + (t.price || 0), 0) * weight;
+
+export const evaluateTradeOffer = (gameState: GameState, player: Player, offer: TradeOffer): AIDecision => {
+  if (offer.toPlayerId !== player.id) return { action: 'REJECT_TRADE', reasoning: "这笔交易不是发给我的。" };
+  if (validateTrade(gameState, offer.fromPlayerId, offer)) return { action: 'REJECT_TRADE', reasoning: "交易条件已无法成立。" };
+
+  const params = getAIParams(player);
+  const tileById = (id: number) => gameState.tiles.find(t => t.id === id)!;
+  const after = applyTrade(gameState, offer);
+  const touchedGroups = new Set(
+    [...offer.offeredProperties, ...offer.requestedProperties].map(id => tileById(id).group)
+  );
+
+  let received = offer.offeredMoney + offer.offeredJailCards * JAIL_CARD_VALUE +
+    offer.offeredProperties.reduce((sum, id) => sum + baseTileValue(tileById(id), params.stationValueFactor), 0);
+  let given = offer.requestedMoney + offer.requestedJailCards * JAIL_CARD_VALUE +
+    offer.requestedProperties.reduce((sum, id) => sum + baseTileValue(tileById(id), params.stationValueFactor), 0);
+
+  touchedGroups.forEach(group => {
+    if (group === ColorGroup.NONE) return;
+    const bonus = monopolyBonus(gameState, group, params.monopolyWeight);
+    const mineBefore = checkOwnsGroup(player.id, group, gameState.tiles);
+    const mineAfter = checkOwnsGroup(player.id, group, after.tiles);
+    const theirsBefore = checkOwnsGroup(offer.fromPlayerId, group, gameState.tiles);
+    const theirsAfter = checkOwnsGroup(offer.fromPlayerId, group, after.tiles);
+
+    if (!mineBefore && mineAfter) received += bonus;
+    if (mineBefore && !mineAfter) given += bonus;
+    // 帮对手凑齐垄断是很大的代价
+    if (!theirsBefore && theirsAfter) given += bonus;
+  });
+
+  const moneyAfter = player.money - offer.requestedMoney + offer.offeredMoney;
+  if (moneyAfter < params.tradeCashReserve && offer.requestedMoney > 0) {
+    return { action: 'REJECT_TRADE', reasoning: `交易后现金只剩 $${moneyAfter}，风险太高。` };
+  }
+
+  if (received >= given * params.tradeMargin) {
+    return { action: 'ACCEPT_TRADE', reasoning: `估值划算 (收到约 $${Math.round(received)}，付出约 $${Math.round(given)})。` };
+  }
+  return { action: 'REJECT_TRADE', reasoning: `估值不划算 (收到约 $${Math.round(received)}，付出约 $${Math.round(given)})。` };
+};
+
+// 如果当前有发给 AI 的交易提议，返回该 AI 的回应
+export const getAITradeResponse = async (gameState: GameState): Promise<NetworkAction | null> => {
+  const offer = gameState.pendingTrade;
+  if (!offer) return null;
+
+  const recipient = gameState.players.find(p => p.id === offer.toPlayerId);
+  if (!recipient || !recipient.isAI || recipient.bankrupt) return null;
+
+  const decision = evaluateTradeOffer(gameState, recipient, offer);
+  return { type: decision.action === 'ACCEPT_TRADE' ? 'ACCEPT_TRADE' : 'REJECT_TRADE', playerId: recipient.id };
+};
+
+// -------------------------
+// 竞拍 (Auction Bidding)
+// -------------------------
+
+const BID_STEP = 10;
+const HOUSE_PREMIUM_RATE = 0.5; // 抢房子时最多在造价上加价 50%
+
+// 愿意出的最高价：沿用购买估值，凑齐街区、热门地段或收藏家看中的车站愿意溢价
+export const getMaxBid = (gameState: GameState, player: Player, tile: Tile) => {
+  const { completesSet, isHotArea, reserveCash } = evaluatePurchase(gameState, player, tile);
+  const params = getAIParams(player);
+  const isStation = tile.type === TileType.STATION || tile.type === TileType.UTILITY;
+  const premium = completesSet ? params.setPremium : isHotArea ? params.hotAreaPremium : isStation ? params.stationPremium : 1.0;
+  return Math.max(0, Math.min(player.money - reserveCash, Math.floor((tile.price || 0) * premium)));
+};
+
+// 房屋短缺时愿意付的加价 (不含造价)，付完仍要留一点现金
+export const getMaxHousePremium = (player: Player, tile: Tile) => {
+  const houseCost = tile.houseCost || 0;
+  return Math.max(0, Math.min(player.money - houseCost - getAIParams(player).buildReserve, Math.floor(houseCost * HOUSE_PREMIUM_RATE)));
+};
+
+// 返回一个 AI 竞拍者的下一步 (加价或退出)；没有 AI 需要行动时返回 null
+export const getAIAuctionAction = (gameState: GameState): NetworkAction | null => {
+  const auction = gameState.auction;
+  if (!auction) return null;
+
+  for (const bidderId of auction.activeBidderIds) {
+    const bidder = gameState.players.find(p => p.id === bidderId);
+    if (!bidder || !bidder.isAI || bidder.id === auction.highestBidderId) continue;
+
+    const tileId = auction.lot === 'HOUSE' ? auction.buildTargets[bidder.id] : auction.tileId;
+    const tile = gameState.tiles.find(t => t.id === tileId);
+    const maxBid = !tile ? 0 : auction.lot === 'HOUSE' ? getMaxHousePremium(bidder, tile) : getMaxBid(gameState, bidder, tile);
+
+    const nextBid = auction.highestBid + BID_STEP;
+    if (nextBid <= maxBid) {
+      return { type: 'BID', playerId: bidder.id, payload: { amount: nextBid } };
+    }
+    return { type: 'DROP_OUT', playerId: bidder.id };
+  }
+  return null;
+};
+
+// -------------------------
+// 偿债 (Debt Resolution)
+// -------------------------
+// 现金够就还款；不够先抵押空地，再卖房；全部卖掉抵押也不够只能宣告破产。
+export const getAIDebtActions = (gameState: GameState, player: Player): NetworkAction[] => {
+  const debt = gameState.debts[0];
+  if (!debt || debt.debtorId !== player.id) return [];
+
+  const shortfall = debt.amount - player.money;
+  if (shortfall <= 0) return [{ type: 'PAY_DEBT', playerId: player.id }];
+
+  const toMortgages = (tileIds: number[]) =>
+    tileIds.map((tileId): NetworkAction => ({ type: 'MORTGAGE', playerId: player.id, payload: { tileId } }));
+
+  // 尽量保住房屋：只靠抵押就够的话不卖房
+  const plan = planMortgages(gameState, player, shortfall);
+  if (plan) return [...toMortgages(plan), { type: 'PAY_DEBT', playerId: player.id }];
+
+  // 卖房所得不够时，卖空的街区也可以继续抵押
+  const { sales, raised, state } = planHouseSales(gameState, player, shortfall);
+  const rest = raised >= shortfall ? [] : planMortgages(state, player, shortfall - raised);
+  if (!rest) return [{ type: 'DECLARE_BANKRUPTCY', playerId: player.id }];
+
+  return [
+    ...sales.map((tileId): NetworkAction => ({ type: 'SELL_HOUSE', playerId: player.id, payload: { tileId } })),
+    ...toMortgages(rest),
+    { type: 'PAY_DEBT', playerId: player.id }
+  ];
+};
+
+// -------------------------
+// AI 调度入口
+// -------------------------
+// 返回当前局面下所有 AI 需要执行的动作：先回应交易，再偿债和竞拍，最后是当前回合的 AI。
+export const getPendingAIActions = async (gameState: GameState): Promise<NetworkAction[]> => {
+  const tradeResponse = await getAITradeResponse(gameState);
+  if (tradeResponse) return [tradeResponse];
+
+  if (gameState.phase === GamePhase.RAISING_FUNDS) {
+    const debtor = gameState.players.find(p => p.id === gameState.debts[0]?.debtorId);
+    return debtor && debtor.isAI ? getAIDebtActions(gameState, debtor) : [];
+  }
+
+  if (gameState.phase === GamePhase.AUCTION) {
+    const bid = getAIAuctionAction(gameState);
+    return bid ? [bid] : [];
+  }
+
+  const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+  if (!currentPlayer || !currentPlayer.isAI || currentPlayer.bankrupt) return [];
+  return getAIActions(gameState, currentPlayer);
+};
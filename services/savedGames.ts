@@ -0,0 +1,54 @@
+import { GameState, GamePhase } from "../types";
+
+// Browser-side persistence. Offline games are autosaved after every change so a
+// refresh can pick them up again; online games only remember which room and
+// player this tab was, since the server keeps the game itself.
+
+const OFFLINE_GAME_KEY = 'geminipoly.offlineGame';
+const ONLINE_SESSION_KEY = 'geminipoly.onlineSession';
+
+export interface OnlineSession {
+  user: { id: string; name: string };
+  roomId: string;
+  token: string; // Issued by the server on join; proves the seat is ours when rejoining
+}
+
+const IN_GAME_PHASES = [
+  GamePhase.ROLLING, GamePhase.MOVING, GamePhase.ACTION, GamePhase.SHOWING_CARD,
+  GamePhase.END_TURN, GamePhase.AUCTION, GamePhase.RAISING_FUNDS
+];
+
+export const isGameInProgress = (state: GameState) => IN_GAME_PHASES.includes(state.phase);
+
+const read = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Storage full or disabled: the game keeps running, it just won't survive a refresh
+    console.warn(`Could not save ${key}:`, e);
+  }
+};
+
+export const saveOfflineGame = (state: GameState) => write(OFFLINE_GAME_KEY, { ...state, selectedTileId: null });
+
+export const loadOfflineGame = (): GameState | null => {
+  const state = read<GameState>(OFFLINE_GAME_KEY);
+  return state && isGameInProgress(state) && state.currentUser ? state : null;
+};
+
+export const clearOfflineGame = () => localStorage.removeItem(OFFLINE_GAME_KEY);
+
+export const saveOnlineSession = (session: OnlineSession) => write(ONLINE_SESSION_KEY, session);
+
+export const loadOnlineSession = (): OnlineSession | null => read<OnlineSession>(ONLINE_SESSION_KEY);
+
+export const clearOnlineSession = () => localStorage.removeItem(ONLINE_SESSION_KEY);
@@ -52,6 +52,8 @@ export interface Player {
   consecutiveDoubles: number; // Track doubles for the 3-strikes rule
   properties: number[];
   bankrupt: boolean;
+  getOutOfJailCards: number;
+  aiProfile?: AIProfile; // Chosen for AI seats in the room; seats taken over by the AI use the default
 }
 
 export enum GamePhase {
@@ -62,6 +64,8 @@ export enum GamePhase {
   MOVING = 'MOVING',
   ACTION = 'ACTION',
   SHOWING_CARD = 'SHOWING_CARD',
+  AUCTION = 'AUCTION',
+  RAISING_FUNDS = 'RAISING_FUNDS',
   END_TURN = 'END_TURN',
   GAME_OVER = 'GAME_OVER'
 }
@@ -71,49 +75,198 @@ export interface GameLog {
   message: string;
   type: 'info' | 'success' | 'danger' | 'warning';
   timestamp: number;
+  detail?: LogDetail; // What happened, for tools that analyse games (see scripts/simulate.js)
 }
 
+// Machine-readable record behind some log entries
+export type LogDetail =
+  | { kind: 'LANDING'; playerId: string; tileId: number }
+  | { kind: 'RENT'; payerId: string; ownerId: string; tileId: number; amount: number }
+  | { kind: 'BANKRUPTCY'; playerId: string; debt: Debt | null }; // debt: what they could not pay, null for surrendering
+
 export interface ChanceCard {
   id: number;
   title: string;
   description: string;
-  effectType: 'MONEY' | 'MOVE_TO' | 'MOVE_STEPS' | 'GO_TO_JAIL';
+  effectType:
+    | 'MONEY' | 'MOVE_TO' | 'MOVE_STEPS' | 'GO_TO_JAIL'
+    | 'JAIL_CARD' // Kept until used to leave jail
+    | 'REPAIRS' // value per house, hotelValue per hotel
+    | 'PAY_EACH_PLAYER' | 'COLLECT_FROM_EACH_PLAYER' // value per other player
+    | 'MOVE_TO_NEAREST'; // Advance to the next `nearest` tile and pay boosted rent there
   value: number;
+  hotelValue?: number;
+  nearest?: TileType.STATION | TileType.UTILITY;
+}
+
+export type CardDeck = 'CHANCE' | 'COMMUNITY_CHEST';
+
+// A playable board. Custom boards are loaded from JSON and checked by validateBoard
+export interface BoardDefinition {
+  id: string;
+  name: string;
+  size: number; // Number of tiles; a multiple of 4 so the board forms a square
+  jailIndex: number;
+  tiles: Tile[]; // In board order, tile ids equal to their index
+  decks: Record<CardDeck, ChanceCard[]>;
+}
+
+// Terms of a trade, seen from the proposer: what they give and what they ask for
+export interface TradeTerms {
+  toPlayerId: string;
+  offeredProperties: number[];
+  requestedProperties: number[];
+  offeredMoney: number;
+  requestedMoney: number;
+  offeredJailCards: number;
+  requestedJailCards: number;
+}
+
+export interface TradeOffer extends TradeTerms {
+  id: string;
+  fromPlayerId: string;
+}
+
+export interface AuctionState {
+  lot: 'PROPERTY' | 'HOUSE'; // An unowned property, or one house while the bank is running short
+  tileId: number; // PROPERTY: the tile for sale. HOUSE: the tile the house was requested for
+  buildTargets: Record<string, number>; // HOUSE: tile each bidder will build on if they win
+  resumePhase: GamePhase; // Phase the turn continues in once the auction is settled
+  highestBid: number;
+  highestBidderId: string | null;
+  activeBidderIds: string[]; // Players who have not dropped out yet
+  endsAt: number; // Timestamp when bidding closes; every bid resets it
+}
+
+// What a charge was for
+export type DebtReason = 'RENT' | 'TAX' | 'CARD' | 'BAIL';
+
+// Money a player owes but could not pay on the spot
+export interface Debt {
+  debtorId: string;
+  creditorId: string | null; // null = the bank
+  amount: number;
+  reason: DebtReason;
+}
+
+// Rules chosen by the host before the game starts
+export interface RuleSet {
+  startingMoney: number;
+  goSalary: number;
+  bailAmount: number;
+  maxJailTurns: number; // Turns in jail before bail is forced
+  doublesLimit: number; // Consecutive doubles that send a player to jail
+  auctionsEnabled: boolean; // Declined properties go up for auction instead of staying with the bank
+  freeParkingJackpot: boolean; // Taxes and fines collect on Free Parking for whoever lands there
+  doubleSalaryOnGo: boolean; // Landing exactly on START pays twice the salary
+  noRentInJail: boolean; // Owners in jail collect no rent
+  houseSupply: number; // Houses the bank holds at the start of the game
+  hotelSupply: number; // Hotels the bank holds at the start of the game
+}
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  isAI: boolean;
+  isHost: boolean;
+  graceEndsAt?: number | null; // Set while a dropped player can still reclaim the seat
+  aiTakeover?: boolean; // The AI is playing this seat until its player rejoins
+  aiProfile?: AIProfile; // Only on AI seats
 }
 
 export interface Room {
   id: string;
   name: string;
   hostId: string;
-  players: { id: string; name: string; isAI: boolean; isHost: boolean; socketId?: string }[];
+  players: RoomPlayer[];
   status: 'WAITING' | 'PLAYING';
   maxPlayers: number;
+  rules: RuleSet;
+  board: BoardDefinition;
+  seed: number | null; // Fixed seed chosen by the host; null picks a random one at start
   createdAt: number;
+  isPrivate: boolean; // Hidden from the lobby; joined with the room id as invite code
+  hasPassword: boolean;
+}
+
+// Which rooms the lobby shows
+export interface LobbyFilter {
+  status: 'ALL' | Room['status'];
+  hideFull: boolean;
+}
+
+// One applied action, with the time it was applied and the random numbers it drew
+export interface JournalEntry {
+  action: NetworkAction;
+  at: number;
+  draws: number[];
 }
 
 export interface GameState {
   players: Player[];
   currentPlayerIndex: number;
+  board: Omit<BoardDefinition, 'tiles'>; // Static board data; the live tiles are below
   tiles: Tile[];
   dice: [number, number];
   phase: GamePhase;
   logs: GameLog[];
   winner: Player | null;
   currentCard: ChanceCard | null;
+  decks: Record<CardDeck, number[]>; // Card ids left in each draw pile, top card first
+  heldJailCards: number[]; // Ids of get-out-of-jail cards in players' hands, kept out of reshuffles
   selectedTileId: number | null; // For viewing/upgrading tiles
   waitingForDoublesTurn: boolean; // Flag to indicate player rolled doubles and goes again
+  pendingTrade: TradeOffer | null; // Offer waiting for the recipient to accept, reject or counter
+  rules: RuleSet;
+  freeParkingPot: number; // Jackpot waiting on Free Parking (freeParkingJackpot rule)
+  auction: AuctionState | null;
+  houseSupply: number; // Houses left in the bank
+  hotelSupply: number; // Hotels left in the bank
+  debts: Debt[]; // Queue of unpaid debts; the game waits in RAISING_FUNDS until it is empty
+  debtResume: { phase: GamePhase; waitingForDoublesTurn: boolean } | null; // Where the turn continues once debts are settled
+  rngSeed: number; // Seed of the game's random stream (see engine/random.ts)
+  rngCounter: number; // Draws taken from the stream so far
+  journal: JournalEntry[]; // Every applied action, in order; see engine/replay.ts
   currentUser: { id: string; name: string } | null; // Current logged in user
   roomId: string | null;
   isHost: boolean;
 }
 
+export type AIDifficulty = 'EASY' | 'NORMAL' | 'HARD';
+export type AIPersonality = 'BALANCED' | 'BUILDER' | 'SAVER' | 'COLLECTOR';
+
+// How an AI seat plays; see services/aiProfiles.ts for the thresholds each one sets
+export interface AIProfile {
+  difficulty: AIDifficulty;
+  personality: AIPersonality;
+}
+
 export interface AIDecision {
-  action: 'BUY' | 'PASS' | 'BUILD' | 'MORTGAGE' | 'PAY_JAIL';
-  targetTileId?: number;
+  action: 'BUY' | 'PASS' | 'BUILD' | 'MORTGAGE' | 'UNMORTGAGE' | 'PAY_JAIL' | 'USE_JAIL_CARD' | 'ACCEPT_TRADE' | 'REJECT_TRADE';
+  targetTileId?: number; // Tile to build on, mortgage or unmortgage; for a purchase, the tile being bought
   reasoning: string;
 }
 
-export type ActionType = 'ROLL' | 'BUY' | 'PASS' | 'END_TURN' | 'PAY_BAIL' | 'UPGRADE' | 'SURRENDER';
+// Makes the AI's purchase decisions; see services/geminiService.ts for how one is chosen
+export interface AIProvider {
+  name: string;
+  decide: (gameState: GameState, player: Player) => Promise<AIDecision>;
+}
+
+export type ActionType =
+  | 'ROLL' | 'BUY' | 'PASS' | 'END_TURN' | 'PAY_BAIL' | 'UPGRADE' | 'SURRENDER'
+  | 'MORTGAGE' | 'UNMORTGAGE' | 'SELL_HOUSE' | 'USE_JAIL_CARD'
+  | 'PROPOSE_TRADE' | 'ACCEPT_TRADE' | 'REJECT_TRADE' | 'COUNTER_TRADE' | 'CANCEL_TRADE'
+  | 'BID' | 'DROP_OUT' | 'CLOSE_AUCTION'
+  | 'PAY_DEBT' | 'DECLARE_BANKRUPTCY';
+
+// Sent by the server when it refuses an event, with a reason code and a message for the player
+export interface ActionRejection {
+  event: string;
+  reason: string;
+  message: string;
+  action?: NetworkAction | null;
+}
 
 export interface NetworkAction {
   type: ActionType;